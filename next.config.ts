@@ -2,14 +2,6 @@
 import type {NextConfig} from 'next';
 
 const nextConfig: NextConfig = {
-  async rewrites() {
-    return [
-      {
-        source: '/api/immich/:path*',
-        destination: `${process.env.NEXT_PUBLIC_IMMICH_SERVER_URL}/api/:path*`,
-      },
-    ];
-  },
   /* config options here */
   typescript: {
     ignoreBuildErrors: true,
@@ -0,0 +1,68 @@
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { useLoadConfig } from '@/hooks/useConfig';
+import { usePinLock } from '@/hooks/usePinLock';
+import { SettingsForm } from '@/components/admin/SettingsForm';
+import { PinSettings } from '@/components/admin/PinSettings';
+import { ProfilePicker } from '@/components/admin/ProfilePicker';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogContent, AlertDialogDescription, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { LoadingScreen, ErrorScreen } from '@/components/photo-frame/StatusScreens';
+import { PinPrompt } from '@/components/photo-frame/PinPrompt';
+
+
+export default function AdminPage() {
+  // The form keeps the settings it was opened with; changes saved elsewhere only show
+  // after a reload. The config itself is reloaded after saving, for the profile list.
+  const { config, error, reload } = useLoadConfig(null, { withProfiles: true });
+  const [profile, setProfile] = useState<string | null>(null);
+  const { status, error: pinError, isUnlocked, unlock, refresh } = usePinLock();
+
+  if (!config || !status) {
+    const loadError = error || pinError;
+    return loadError ? <ErrorScreen error={loadError} /> : <LoadingScreen message="Loading settings..." />;
+  }
+
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-3xl space-y-6 px-4 py-8">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-semibold">Frame Settings</h1>
+            <p className="text-muted-foreground">Saved settings are picked up by every frame within a few minutes.</p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link href="/">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Frame
+            </Link>
+          </Button>
+        </div>
+        <ProfilePicker config={config} value={profile} onChange={setProfile} onSaved={reload} onLocked={refresh} />
+        <SettingsForm
+          key={profile ?? ''}
+          config={config}
+          profile={profile}
+          pinRequired={status.pinRequired}
+          onSaved={reload}
+          onLocked={refresh}
+        />
+        <PinSettings pinRequired={status.pinRequired} onChange={refresh} />
+      </div>
+
+      {/* Shown over the form, so edits survive the PIN session running out */}
+      <AlertDialog open={!isUnlocked}>
+        <AlertDialogContent className="w-auto">
+          <AlertDialogHeader className="sr-only">
+            <AlertDialogTitle>PIN required</AlertDialogTitle>
+            <AlertDialogDescription>Enter the PIN to change settings.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <PinPrompt onUnlock={unlock} lockedUntil={status.lockedUntil} />
+        </AlertDialogContent>
+      </AlertDialog>
+    </main>
+  );
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pinSchema } from '@/lib/pin';
+import { hasAccess, setPin, setSessionCookie } from '@/lib/pin-store';
+
+export const dynamic = 'force-dynamic';
+
+// Sets the PIN with { "pin": "1234" }, or removes it with { "pin": null }. Changing an
+// existing PIN needs the current one to have been entered.
+export async function PUT(request: NextRequest) {
+    if (!(await hasAccess(request))) {
+        return NextResponse.json({ message: 'Enter the current PIN first' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const pin = body?.pin === null ? null : pinSchema.safeParse(body?.pin);
+    if (pin && !pin.success) {
+        return NextResponse.json({ message: pin.error.issues[0].message }, { status: 400 });
+    }
+
+    try {
+        const session = await setPin(pin ? pin.data : null);
+        return setSessionCookie(NextResponse.json({ pinRequired: session !== null, unlocked: true, lockedUntil: null }), session);
+    } catch (e: any) {
+        console.error('Could not save the PIN:', e);
+        return NextResponse.json({ message: 'Could not save the PIN' }, { status: 500 });
+    }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkPin, getPinStatus, setSessionCookie } from '@/lib/pin-store';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    return NextResponse.json(await getPinStatus(request));
+}
+
+// Unlocks the settings with { "pin": "1234" } for a while, through a session cookie.
+export async function POST(request: NextRequest) {
+    const status = await getPinStatus(request);
+    if (!status.pinRequired) return NextResponse.json(status);
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.pin !== 'string') {
+        return NextResponse.json({ message: 'Expected { "pin": "..." }' }, { status: 400 });
+    }
+
+    const result = await checkPin(body.pin);
+    if (result.ok) {
+        return setSessionCookie(NextResponse.json({ ...status, unlocked: true, lockedUntil: null }), result.session);
+    }
+    if ('lockedUntil' in result) {
+        const retryAfter = Math.ceil((result.lockedUntil - Date.now()) / 1000);
+        return NextResponse.json(
+            { message: 'Too many wrong PINs', lockedUntil: result.lockedUntil },
+            { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+        );
+    }
+    const attempts = result.attemptsLeft === 1 ? '1 attempt' : `${result.attemptsLeft} attempts`;
+    return NextResponse.json({ message: `Wrong PIN, ${attempts} left.`, attemptsLeft: result.attemptsLeft }, { status: 401 });
+}
+
+// Locks the settings again on this browser.
+export async function DELETE(request: NextRequest) {
+    const status = await getPinStatus(request);
+    return setSessionCookie(NextResponse.json({ ...status, unlocked: !status.pinRequired }), null);
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { applyProfile, toPublicConfig } from '@/lib/config';
+import { ConfigValidationError, readConfig, StoredConfigError, updateConfig } from '@/lib/config-store';
+import { hasAccess } from '@/lib/pin-store';
+
+export const dynamic = 'force-dynamic';
+
+// With ?profile=name, the settings frames showing that profile run with.
+export async function GET(request: NextRequest) {
+    const config = await readConfig();
+    const profile = request.nextUrl.searchParams.get('profile');
+    if (!profile) return NextResponse.json(toPublicConfig(config));
+
+    const resolved = applyProfile(config, profile);
+    if (!resolved) {
+        return NextResponse.json({ message: `There is no profile named "${profile}"` }, { status: 404 });
+    }
+    return NextResponse.json(toPublicConfig(resolved));
+}
+
+// Accepts any subset of the settings, e.g. { "playback": { "duration": 20000 } }. Needs the
+// PIN to have been entered when one is set.
+export async function PUT(request: NextRequest) {
+    if (!(await hasAccess(request))) {
+        return NextResponse.json({ message: 'Enter the PIN to change settings' }, { status: 401 });
+    }
+
+    const update = await request.json().catch(() => null);
+    if (typeof update !== 'object' || update === null || Array.isArray(update)) {
+        return NextResponse.json({ message: 'Expected a JSON object' }, { status: 400 });
+    }
+
+    try {
+        return NextResponse.json(toPublicConfig(await updateConfig(update)));
+    } catch (e: any) {
+        if (e instanceof ConfigValidationError) {
+            return NextResponse.json({ message: e.message, issues: e.issues }, { status: 400 });
+        }
+        if (e instanceof StoredConfigError) {
+            return NextResponse.json({ message: e.message }, { status: 409 });
+        }
+        console.error('Could not save the configuration:', e);
+        return NextResponse.json({ message: 'Could not save the configuration' }, { status: 500 });
+    }
+}
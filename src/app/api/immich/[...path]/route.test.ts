@@ -0,0 +1,268 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+
+// Runs the proxy route against a fake Immich server listening on localhost.
+
+const SERVER_API_KEY = 'server-api-key';
+const ASSET_ID = '6f1c7a52-1d3e-4b7a-9f0e-2a6c8d4e5b10';
+const THUMBNAIL = Buffer.from('0123456789');
+const HIDDEN_TAG = 'frame-hidden';
+const PROFILE_HIDDEN_TAG = 'kitchen/hidden';
+// Tags on the fake server, by ID.
+const TAGS: Record<string, string> = {
+    'a3d0c6b8-0b7e-4f43-9d6a-3c1f5e2b7a90': HIDDEN_TAG,
+    'b5e2f1a4-6c3d-4e8f-8a7b-1d9c0e4f2a36': PROFILE_HIDDEN_TAG,
+    'c7f4a2d6-8e1b-4a9c-b3d5-5f0e7a1c9b28': 'family',
+};
+const [HIDDEN_TAG_ID, PROFILE_HIDDEN_TAG_ID, OTHER_TAG_ID] = Object.keys(TAGS);
+
+interface ReceivedRequest {
+    method: string;
+    url: string;
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+let fakeImmich: Server;
+let received: ReceivedRequest[] = [];
+let dataDir: string;
+let route: typeof import('./route');
+
+function startFakeImmich(): Promise<Server> {
+    const server = createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+            received.push({ method: req.method!, url: req.url!, headers: req.headers, body: Buffer.concat(chunks).toString() });
+
+            if (req.url === `/api/assets/${ASSET_ID}/thumbnail`) {
+                const range = /^bytes=(\d+)-(\d+)$/.exec(req.headers.range ?? '');
+                if (range) {
+                    const [start, end] = [Number(range[1]), Number(range[2])];
+                    res.writeHead(206, {
+                        'content-type': 'image/jpeg',
+                        'accept-ranges': 'bytes',
+                        'content-range': `bytes ${start}-${end}/${THUMBNAIL.length}`,
+                    });
+                    res.end(THUMBNAIL.subarray(start, end + 1));
+                } else {
+                    res.writeHead(200, {
+                        'content-type': 'image/jpeg',
+                        'content-length': THUMBNAIL.length,
+                        'accept-ranges': 'bytes',
+                        'set-cookie': 'immich=1',
+                    });
+                    res.end(THUMBNAIL);
+                }
+                return;
+            }
+            const tag = /^\/api\/tags\/([^/]+)$/.exec(req.url!);
+            if (tag && req.method === 'GET') {
+                const value = TAGS[tag[1]];
+                res.writeHead(value ? 200 : 404, { 'content-type': 'application/json' });
+                res.end(JSON.stringify(value ? { id: tag[1], name: value.split('/').pop(), value } : { message: 'Not found' }));
+                return;
+            }
+            res.writeHead(200, { 'content-type': 'application/json' });
+            res.end(JSON.stringify({ res: 'pong' }));
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+const json = (body: unknown) => ({ headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) });
+
+function callProxy(method: string, proxyPath: string, init: { headers?: Record<string, string>; body?: string } = {}) {
+    const request = new NextRequest(`http://frame.local/api/immich/${proxyPath}`, { method, ...init });
+    const context = { params: Promise.resolve({ path: proxyPath.split('?')[0].split('/') }) };
+    const handler = route[method as 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'];
+    return handler(request, context);
+}
+
+beforeAll(async () => {
+    fakeImmich = await startFakeImmich();
+    const { port } = fakeImmich.address() as AddressInfo;
+
+    // The config store picks up DATA_DIR when it is first imported.
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'immich-proxy-test-'));
+    process.env.DATA_DIR = dataDir;
+    await fs.writeFile(path.join(dataDir, 'config.json'), JSON.stringify({
+        source: { serverUrl: `http://127.0.0.1:${port}`, apiKey: SERVER_API_KEY, hiddenTag: HIDDEN_TAG },
+        profiles: { kitchen: { source: { hiddenTag: PROFILE_HIDDEN_TAG } } },
+    }));
+    route = await import('./route');
+});
+
+afterAll(async () => {
+    await new Promise(resolve => fakeImmich.close(resolve));
+    await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+    received = [];
+});
+
+describe('Immich proxy', () => {
+    it.each([
+        ['GET', 'users/me'],
+        ['GET', 'api-keys'],
+        ['POST', 'auth/login'],
+        ['DELETE', 'assets'],
+        ['GET', `assets/${ASSET_ID}/original`],
+        ['GET', `assets/${ASSET_ID}/../../users/me`],
+        ['GET', 'assets/%2e%2e/thumbnail'],
+    ])('rejects %s /%s with 403 without reaching Immich', async (method, proxyPath) => {
+        const response = await callProxy(method, proxyPath);
+
+        expect(response.status).toBe(403);
+        expect(received).toHaveLength(0);
+    });
+
+    it.each([
+        ['DELETE', `assets/${ASSET_ID}/thumbnail`, 'GET, HEAD'],
+        ['POST', 'server/ping', 'GET'],
+        ['GET', 'search/metadata', 'POST'],
+        ['PATCH', 'albums', 'GET'],
+    ])('rejects %s /%s with 405 and an Allow header without reaching Immich', async (method, proxyPath, allow) => {
+        const response = await callProxy(method, proxyPath);
+
+        expect(response.status).toBe(405);
+        expect(response.headers.get('allow')).toBe(allow);
+        expect(received).toHaveLength(0);
+    });
+
+    it('drops the client x-api-key and cookies and injects the server key', async () => {
+        const response = await callProxy('GET', 'server/ping', {
+            headers: { 'x-api-key': 'client-api-key', cookie: 'session=secret', authorization: 'Bearer client' },
+        });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ res: 'pong' });
+        expect(received).toHaveLength(1);
+        expect(received[0].url).toBe('/api/server/ping');
+        expect(received[0].headers['x-api-key']).toBe(SERVER_API_KEY);
+        expect(received[0].headers.cookie).toBeUndefined();
+        expect(received[0].headers.authorization).toBeUndefined();
+    });
+
+    it('passes the query string and request body through', async () => {
+        const body = JSON.stringify({ page: 1, size: 10 });
+        await callProxy('POST', 'search/metadata?withExif=true', { headers: { 'content-type': 'application/json' }, body });
+
+        expect(received[0].method).toBe('POST');
+        expect(received[0].url).toBe('/api/search/metadata?withExif=true');
+        expect(received[0].headers['content-type']).toBe('application/json');
+        expect(received[0].body).toBe(body);
+    });
+
+    it('passes Range requests and partial responses through', async () => {
+        const response = await callProxy('GET', `assets/${ASSET_ID}/thumbnail`, { headers: { range: 'bytes=2-5' } });
+
+        expect(received[0].headers.range).toBe('bytes=2-5');
+        expect(response.status).toBe(206);
+        expect(response.headers.get('content-range')).toBe(`bytes 2-5/${THUMBNAIL.length}`);
+        expect(response.headers.get('accept-ranges')).toBe('bytes');
+        expect(Buffer.from(await response.arrayBuffer()).toString()).toBe('2345');
+    });
+
+    it('only passes the allowed response headers back', async () => {
+        const response = await callProxy('GET', `assets/${ASSET_ID}/thumbnail`);
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toBe('image/jpeg');
+        expect(response.headers.get('content-length')).toBe(String(THUMBNAIL.length));
+        expect(response.headers.get('set-cookie')).toBeNull();
+    });
+
+    describe('tags', () => {
+        it('allows listing tags', async () => {
+            const response = await callProxy('GET', 'tags');
+
+            expect(response.status).toBe(200);
+            expect(received.map(r => `${r.method} ${r.url}`)).toEqual(['GET /api/tags']);
+        });
+
+        it.each([HIDDEN_TAG, PROFILE_HIDDEN_TAG])('allows creating the hidden tag %s', async tag => {
+            const response = await callProxy('PUT', 'tags', json({ tags: [tag] }));
+
+            expect(response.status).toBe(200);
+            expect(received).toHaveLength(1);
+            expect(JSON.parse(received[0].body)).toEqual({ tags: [tag] });
+        });
+
+        it.each([
+            ['another tag', { tags: ['family'] }],
+            ['several tags', { tags: [HIDDEN_TAG, 'family'] }],
+            ['extra fields', { tags: [HIDDEN_TAG], color: '#ff0000' }],
+            ['a bare array', [HIDDEN_TAG]],
+        ])('refuses creating %s', async (_, body) => {
+            const response = await callProxy('PUT', 'tags', json(body));
+
+            expect(response.status).toBe(403);
+            expect(received).toHaveLength(0);
+        });
+
+        it.each([HIDDEN_TAG_ID, PROFILE_HIDDEN_TAG_ID])('allows tagging assets with the hidden tag %s', async tagId => {
+            const response = await callProxy('PUT', `tags/${tagId}/assets`, json({ ids: [ASSET_ID] }));
+
+            expect(response.status).toBe(200);
+            expect(received.map(r => `${r.method} ${r.url}`)).toEqual([`GET /api/tags/${tagId}`, `PUT /api/tags/${tagId}/assets`]);
+            expect(received[1].headers['x-api-key']).toBe(SERVER_API_KEY);
+        });
+
+        it.each([
+            ['another tag', OTHER_TAG_ID],
+            ['an unknown tag', 'd9a6b4f8-0a3c-4b1e-9d5f-7a2b3c4d5e6f'],
+        ])('refuses tagging assets with %s', async (_, tagId) => {
+            const response = await callProxy('PUT', `tags/${tagId}/assets`, json({ ids: [ASSET_ID] }));
+
+            expect(response.status).toBe(403);
+            expect(received.every(r => r.method === 'GET')).toBe(true);
+        });
+
+        it.each([
+            ['extra fields', { ids: [ASSET_ID], tagIds: [OTHER_TAG_ID] }],
+            ['no assets', { ids: [] }],
+            ['a malformed asset ID', { ids: ['../users'] }],
+        ])('refuses a tagging body with %s', async (_, body) => {
+            const response = await callProxy('PUT', `tags/${HIDDEN_TAG_ID}/assets`, json(body));
+
+            expect(response.status).toBe(403);
+            expect(received).toHaveLength(0);
+        });
+
+        it('rejects a body that is not JSON', async () => {
+            const response = await callProxy('PUT', 'tags', { headers: { 'content-type': 'application/json' }, body: 'tags=frame-hidden' });
+
+            expect(response.status).toBe(400);
+            expect(received).toHaveLength(0);
+        });
+    });
+
+    describe('favorites', () => {
+        it.each([true, false])('allows setting isFavorite to %s', async isFavorite => {
+            const response = await callProxy('PUT', `assets/${ASSET_ID}`, json({ isFavorite }));
+
+            expect(response.status).toBe(200);
+            expect(received).toHaveLength(1);
+            expect(JSON.parse(received[0].body)).toEqual({ isFavorite });
+        });
+
+        it.each([
+            ['other fields', { isArchived: true }],
+            ['other fields alongside isFavorite', { isFavorite: true, dateTimeOriginal: '2000-01-01T00:00:00.000Z' }],
+            ['a non-boolean isFavorite', { isFavorite: 'true' }],
+            ['an empty body', {}],
+        ])('refuses an asset update with %s', async (_, body) => {
+            const response = await callProxy('PUT', `assets/${ASSET_ID}`, json(body));
+
+            expect(response.status).toBe(403);
+            expect(received).toHaveLength(0);
+        });
+    });
+});
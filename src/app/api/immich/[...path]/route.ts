@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkImmichBody, checkImmichRequest } from '@/lib/immich-allowlist';
+import { readConfig } from '@/lib/config-store';
+import type { FrameConfig } from '@/lib/config';
+
+// Headers passed through in each direction. Everything else (cookies, any client-sent
+// x-api-key) is dropped. The range headers let video elements stream and seek.
+const FORWARDED_REQUEST_HEADERS = ['accept', 'content-type', 'range', 'if-range'];
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'cache-control', 'etag', 'last-modified', 'accept-ranges', 'content-range'];
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Every hidden tag a frame may use: the default one and any set by a profile.
+const getHiddenTags = (config: FrameConfig): string[] => [
+    config.source.hiddenTag,
+    ...Object.values(config.profiles).map(profile => profile.source?.hiddenTag),
+].filter((tag): tag is string => !!tag);
+
+async function proxy(request: NextRequest, { params }: RouteContext) {
+    const { path } = await params;
+    const joinedPath = path.join('/');
+
+    // Checked before anything else so rejected requests never learn about the server config.
+    const check = checkImmichRequest(request.method, joinedPath);
+    if (!check.allowed) {
+        const headers = check.status === 405 ? { Allow: check.allow.join(', ') } : undefined;
+        return NextResponse.json({ message: check.message }, { status: check.status, headers });
+    }
+
+    // Read per request so saved settings apply without a restart. The API key only ever
+    // leaves the server in the request to Immich.
+    const config = await readConfig();
+    const { serverUrl, apiKey } = config.source;
+    if (!serverUrl) {
+        return NextResponse.json({ message: 'Immich Server URL is missing' }, { status: 503 });
+    }
+    if (!apiKey) {
+        return NextResponse.json({ message: 'Immich API Key is missing' }, { status: 503 });
+    }
+
+    const apiUrl = `${serverUrl.replace(/\/+$/, '')}/api`;
+    const target = new URL(`${apiUrl}/${path.map(encodeURIComponent).join('/')}`);
+    target.search = request.nextUrl.search;
+
+    const headers = new Headers({ 'x-api-key': apiKey });
+    for (const name of FORWARDED_REQUEST_HEADERS) {
+        const value = request.headers.get(name);
+        if (value) headers.set(name, value);
+    }
+
+    const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+    const body = hasBody ? await request.text() : undefined;
+
+    try {
+        // Writes are limited to the changes the frame makes, so their bodies are checked too.
+        if (body !== undefined) {
+            let json: unknown;
+            try {
+                json = JSON.parse(body);
+            } catch {
+                return NextResponse.json({ message: 'Expected a JSON body' }, { status: 400 });
+            }
+
+            const rejection = await checkImmichBody(request.method, joinedPath, json, {
+                hiddenTags: getHiddenTags(config),
+                getTagName: async id => {
+                    const response = await fetch(`${apiUrl}/tags/${encodeURIComponent(id)}`, {
+                        headers: { 'x-api-key': apiKey, accept: 'application/json' },
+                        cache: 'no-store',
+                    });
+                    if (!response.ok) return null;
+                    // `value` is the full name of nested tags, e.g. "frame/hidden".
+                    const tag = await response.json();
+                    return tag.value ?? tag.name ?? null;
+                },
+            });
+            if (rejection) {
+                return NextResponse.json({ message: rejection }, { status: 403 });
+            }
+        }
+
+        const upstream = await fetch(target, {
+            method: request.method,
+            headers,
+            body,
+            cache: 'no-store',
+        });
+
+        const responseHeaders = new Headers();
+        for (const name of FORWARDED_RESPONSE_HEADERS) {
+            const value = upstream.headers.get(name);
+            if (value) responseHeaders.set(name, value);
+        }
+        // fetch decompresses encoded bodies, which makes the upstream length wrong for them.
+        const contentLength = upstream.headers.get('content-length');
+        if (contentLength && !upstream.headers.has('content-encoding')) {
+            responseHeaders.set('content-length', contentLength);
+        }
+
+        return new Response(upstream.body, { status: upstream.status, headers: responseHeaders });
+    } catch (e: any) {
+        console.error(`Immich proxy request to ${target.pathname} failed:`, e);
+        return NextResponse.json({ message: 'Could not reach the Immich server' }, { status: 502 });
+    }
+}
+
+export { proxy as GET, proxy as HEAD, proxy as POST, proxy as PUT, proxy as PATCH, proxy as DELETE };
@@ -0,0 +1,10 @@
+"use client";
+
+import { use } from 'react';
+import { ConfiguredFrame } from '@/components/photo-frame/ConfiguredFrame';
+
+
+export default function ProfileFrame({ params }: { params: Promise<{ profile: string }> }) {
+  const { profile } = use(params);
+  return <ConfiguredFrame profile={profile} />;
+}
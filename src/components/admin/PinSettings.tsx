@@ -0,0 +1,110 @@
+"use client";
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { pinSchema } from '@/lib/pin';
+import { useToast } from '@/hooks/use-toast';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+const PIN_URL = '/api/auth/pin';
+
+const pinFormSchema = z.object({
+  pin: pinSchema,
+  confirm: z.string(),
+}).refine(values => values.pin === values.confirm, { message: "The PINs don't match", path: ['confirm'] });
+
+type PinForm = z.infer<typeof pinFormSchema>;
+
+interface PinSettingsProps {
+  pinRequired: boolean;
+  onChange: () => void;
+}
+export function PinSettings({ pinRequired, onChange }: PinSettingsProps) {
+  const { toast } = useToast();
+  const form = useForm<PinForm>({
+    resolver: zodResolver(pinFormSchema),
+    defaultValues: { pin: '', confirm: '' },
+  });
+
+  const savePin = async (pin: string | null) => {
+    try {
+      const response = await fetch(PIN_URL, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pin }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(body.message || `Server responded with ${response.status}`);
+
+      form.reset();
+      toast({ title: pin ? 'PIN saved' : 'PIN removed' });
+    } catch (e: any) {
+      console.error("Failed to save the PIN:", e);
+      toast({ variant: 'destructive', title: 'Could not save the PIN', description: e.message });
+    }
+    onChange();
+  };
+
+  const { isSubmitting } = form.formState;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>PIN</CardTitle>
+        <CardDescription>
+          {pinRequired
+            ? 'The settings here and on the frame ask for the PIN. To reset a forgotten PIN, delete pin.json from the data directory.'
+            : 'Set a PIN to keep passers-by out of the settings here and on the frame.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => savePin(values.pin))} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="pin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{pinRequired ? 'New PIN' : 'PIN'}</FormLabel>
+                    <FormControl>
+                      <Input type="password" inputMode="numeric" autoComplete="new-password" maxLength={12} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="confirm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeat PIN</FormLabel>
+                    <FormControl>
+                      <Input type="password" inputMode="numeric" autoComplete="new-password" maxLength={12} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              {pinRequired && (
+                <Button type="button" variant="outline" disabled={isSubmitting} onClick={() => savePin(null)}>
+                  Remove PIN
+                </Button>
+              )}
+              <Button type="submit" disabled={isSubmitting}>
+                {pinRequired ? 'Change PIN' : 'Set PIN'}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
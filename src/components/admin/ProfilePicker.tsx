@@ -0,0 +1,146 @@
+"use client";
+
+import Link from 'next/link';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { ExternalLink, Plus, Trash2 } from 'lucide-react';
+import { profileNameSchema, type ProfileConfig, type PublicConfig } from '@/lib/config';
+import { useToast } from '@/hooks/use-toast';
+import { Form, FormControl, FormField, FormItem, FormMessage } from '@/components/ui/form';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+
+const CONFIG_URL = '/api/config';
+// Select items can't have an empty value, so the default settings get a stand-in.
+const DEFAULT_PROFILE = '__default__';
+
+interface ProfilePickerProps {
+  config: PublicConfig;
+  // The profile being edited, null for the default settings.
+  value: string | null;
+  onChange: (profile: string | null) => void;
+  onSaved: () => void;
+  onLocked?: () => void;
+}
+export function ProfilePicker({ config, value, onChange, onSaved, onLocked }: ProfilePickerProps) {
+  const { toast } = useToast();
+  const names = Object.keys(config.profiles).sort();
+
+  const form = useForm<{ name: string }>({
+    resolver: zodResolver(z.object({
+      name: profileNameSchema.refine(name => !Object.hasOwn(config.profiles, name), 'There already is a profile with this name'),
+    })),
+    defaultValues: { name: '' },
+  });
+
+  const saveProfiles = async (profiles: Record<string, ProfileConfig>): Promise<boolean> => {
+    try {
+      const response = await fetch(CONFIG_URL, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ profiles }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (response.status === 401) onLocked?.();
+      if (!response.ok) throw new Error(body.message || `Server responded with ${response.status}`);
+      onSaved();
+      return true;
+    } catch (e: any) {
+      console.error("Failed to save profiles:", e);
+      toast({ variant: 'destructive', title: 'Could not save profiles', description: e.message });
+      return false;
+    }
+  };
+
+  // A new profile starts out with the default settings.
+  const addProfile = async ({ name }: { name: string }) => {
+    if (!(await saveProfiles({ ...config.profiles, [name]: {} }))) return;
+    form.reset();
+    onChange(name);
+  };
+
+  const deleteProfile = async (name: string) => {
+    const { [name]: _deleted, ...profiles } = config.profiles;
+    if (!(await saveProfiles(profiles))) return;
+    onChange(null);
+    toast({ title: `Profile "${name}" deleted` });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>
+          Frames show the default settings, or a profile picked by URL such as /frame/kitchen. A profile
+          only keeps the settings that differ from the default; everything else follows it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Select value={value ?? DEFAULT_PROFILE} onValueChange={name => onChange(name === DEFAULT_PROFILE ? null : name)}>
+            <SelectTrigger aria-label="Profile">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_PROFILE}>Default</SelectItem>
+              {names.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" asChild>
+            <Link href={value ? `/frame/${value}` : '/'} target="_blank" aria-label="Open this profile's frame">
+              <ExternalLink className="h-4 w-4" />
+            </Link>
+          </Button>
+          {value && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" size="icon" aria-label="Delete this profile">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete the "{value}" profile?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Frames showing it show an error the next time they load, until they are pointed at another profile.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => deleteProfile(value)}>Delete Profile</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(addProfile)} className="flex items-start gap-2">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem className="flex-1">
+                  <FormControl>
+                    <Input placeholder="New profile, e.g. kitchen" autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" variant="outline" disabled={form.formState.isSubmitting}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Profile
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
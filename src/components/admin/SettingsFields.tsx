@@ -0,0 +1,271 @@
+"use client";
+
+import { forwardRef, useEffect, useState } from 'react';
+import { useFormContext, type FieldPath } from 'react-hook-form';
+import type { FrameSettings } from '@/lib/config';
+import { FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// Form controls for the settings page, each bound to one setting of the frame config.
+
+export type SettingName = FieldPath<FrameSettings>;
+
+export interface Option {
+  value: string;
+  label: string;
+}
+
+interface SettingFieldProps {
+  name: SettingName;
+  label: string;
+  description?: string;
+}
+
+const parseList = (text: string) => text.split(',').map(item => item.trim()).filter(Boolean);
+
+// --- Text Field ---
+interface TextFieldProps extends SettingFieldProps {
+  type?: 'text' | 'url' | 'password';
+  placeholder?: string;
+}
+export function TextField({ name, label, description, type = 'text', placeholder }: TextFieldProps) {
+  const { control } = useFormContext<FrameSettings>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type={type}
+              placeholder={placeholder}
+              autoComplete="off"
+              {...field}
+              value={(field.value as string) ?? ''}
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+
+// --- Number Field ---
+interface NumberFieldProps extends SettingFieldProps {
+  // The setting is stored as `scale` times the number shown, e.g. 1000 to edit ms in seconds.
+  scale?: number;
+  // Whether an empty input stands for "not set" (null).
+  nullable?: boolean;
+  min?: number;
+  max?: number;
+  step?: number | 'any';
+}
+export function NumberField({ name, label, description, scale = 1, nullable = false, min, max, step }: NumberFieldProps) {
+  const { control } = useFormContext<FrameSettings>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={min}
+              max={max}
+              step={step}
+              name={field.name}
+              ref={field.ref}
+              onBlur={field.onBlur}
+              value={field.value == null || Number.isNaN(field.value) ? '' : (field.value as number) / scale}
+              onChange={event => {
+                const value = event.target.valueAsNumber;
+                if (Number.isNaN(value)) field.onChange(nullable ? null : NaN);
+                else field.onChange(Math.round(value * scale * 1e6) / 1e6);
+              }}
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+
+// --- Slider Field ---
+interface SliderFieldProps extends SettingFieldProps {
+  min: number;
+  max: number;
+  step?: number;
+  format?: (value: number) => string;
+}
+export function SliderField({ name, label, description, min, max, step = 1, format = String }: SliderFieldProps) {
+  const { control } = useFormContext<FrameSettings>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <div className="flex items-center justify-between">
+            <FormLabel>{label}</FormLabel>
+            <span className="text-sm text-muted-foreground">{format(field.value as number)}</span>
+          </div>
+          <FormControl>
+            <Slider
+              min={min}
+              max={max}
+              step={step}
+              value={[field.value as number]}
+              onValueChange={([value]) => field.onChange(value)}
+              onBlur={field.onBlur}
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+
+// --- Switch Field ---
+export function SwitchField({ name, label, description }: SettingFieldProps) {
+  const { control } = useFormContext<FrameSettings>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between gap-4 space-y-0 rounded-lg border p-3">
+          <div className="space-y-0.5">
+            <FormLabel>{label}</FormLabel>
+            {description && <FormDescription>{description}</FormDescription>}
+          </div>
+          <FormControl>
+            <Switch checked={field.value as boolean} onCheckedChange={field.onChange} onBlur={field.onBlur} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+}
+
+
+// --- Select Field ---
+interface SelectFieldProps extends SettingFieldProps {
+  options: Option[];
+}
+export function SelectField({ name, label, description, options }: SelectFieldProps) {
+  const { control } = useFormContext<FrameSettings>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <Select value={field.value as string} onValueChange={field.onChange}>
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
+
+// --- List Field ---
+interface ListFieldProps extends SettingFieldProps {
+  // Known values to tick off, e.g. the albums on the server. Anything else can be typed.
+  options?: Option[];
+  placeholder?: string;
+}
+export function ListField({ name, label, description, options = [], placeholder }: ListFieldProps) {
+  const { control } = useFormContext<FrameSettings>();
+  return (
+    <FormField
+      control={control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <ListInput value={field.value as string[]} onChange={field.onChange} placeholder={placeholder} />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+          {options.length > 0 && (
+            <div className="grid max-h-56 gap-2 overflow-y-auto rounded-lg border p-3 sm:grid-cols-2">
+              {options.map(option => (
+                <label key={option.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={(field.value as string[]).includes(option.value)}
+                    onCheckedChange={checked => {
+                      const values = (field.value as string[]).filter(value => value !== option.value);
+                      field.onChange(checked ? [...values, option.value] : values);
+                    }}
+                  />
+                  <span className="truncate">{option.label}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </FormItem>
+      )}
+    />
+  );
+}
+
+interface ListInputProps extends Omit<React.ComponentPropsWithoutRef<typeof Input>, 'value' | 'onChange'> {
+  value: string[];
+  onChange: (value: string[]) => void;
+}
+// A comma-separated list. The text is kept as typed so a trailing comma doesn't vanish.
+const ListInput = forwardRef<HTMLInputElement, ListInputProps>(({ value, onChange, ...props }, ref) => {
+  const [text, setText] = useState(() => value.join(', '));
+
+  // Follow changes made elsewhere, e.g. ticking an option or resetting the form.
+  useEffect(() => {
+    if (parseList(text).join(',') !== value.join(',')) setText(value.join(', '));
+  }, [text, value]);
+
+  return (
+    <Input
+      {...props}
+      ref={ref}
+      value={text}
+      autoComplete="off"
+      onChange={event => {
+        setText(event.target.value);
+        onChange(parseList(event.target.value));
+      }}
+    />
+  );
+});
+ListInput.displayName = 'ListInput';
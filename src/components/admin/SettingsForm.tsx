@@ -0,0 +1,407 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useForm, type FieldErrors } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import type { ZodIssue } from 'zod';
+import { AlertTriangle, Loader2, Save } from 'lucide-react';
+import { applyProfile, getProfileOverrides, settingsSchema, WIDGET_SIZES, WIDGET_SLOTS, type FrameSettings, type PublicConfig, type WidgetId } from '@/lib/config';
+import { useToast } from '@/hooks/use-toast';
+import { Form } from '@/components/ui/form';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { WIDGETS } from '@/components/photo-frame/WidgetLayer';
+import { ListField, NumberField, SelectField, SliderField, SwitchField, TextField, type Option, type SettingName } from './SettingsFields';
+
+const CONFIG_URL = '/api/config';
+
+type SettingsTab = 'source' | 'playback' | 'widgets' | 'schedule' | 'display';
+
+// Which tab shows each config section, so a failed save can point at the problem.
+const SECTION_TABS: Partial<Record<keyof FrameSettings, SettingsTab>> = {
+  source: 'source',
+  playback: 'playback',
+  video: 'playback',
+  weather: 'widgets',
+  widgets: 'widgets',
+  schedule: 'schedule',
+  display: 'display',
+};
+
+const TRANSITIONS: Option[] = [
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide', label: 'Slide' },
+  { value: 'zoom', label: 'Zoom' },
+  { value: 'kenburns', label: 'Ken Burns' },
+  { value: 'none', label: 'None' },
+];
+
+// Taken from the values the config schema accepts, e.g. "top-left" becomes "Top left".
+const toOptions = (values: readonly string[]): Option[] => values.map(value => {
+  const label = value.replace(/-/g, ' ');
+  return { value, label: label.charAt(0).toUpperCase() + label.slice(1) };
+});
+
+const WIDGET_SLOT_OPTIONS = toOptions(WIDGET_SLOTS);
+const WIDGET_SIZE_OPTIONS = toOptions(WIDGET_SIZES);
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+// The API key is never sent to the browser, so the form starts with an empty one, which
+// keeps the stored key when saved. Profiles are edited one at a time, see ProfilePicker.
+const toFormValues = ({ source: { hasApiKey, ...source }, profiles, ...settings }: PublicConfig): FrameSettings => ({
+  ...settings,
+  source: { ...source, apiKey: '' },
+});
+
+// The settings a profile runs with. A profile that was just added may not be loaded yet,
+// but it starts out with the defaults anyway.
+const toProfileValues = (config: PublicConfig, profile: string | null): FrameSettings =>
+  toFormValues((profile && applyProfile(config, profile)) || config);
+
+// Fetches a list from the Immich server to pick settings from. Empty while the server
+// isn't set up or can't be reached; the IDs can still be typed in then.
+function useImmichOptions(path: string, toOptions: (data: any) => Option[]): Option[] {
+  const [options, setOptions] = useState<Option[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/immich/${path}`)
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(`Server responded with ${response.status}`))))
+      .then(data => !cancelled && setOptions(toOptions(data)))
+      .catch(e => console.warn(`Could not load /${path} from Immich:`, e.message));
+    return () => { cancelled = true; };
+  }, [path, toOptions]);
+
+  return options;
+}
+
+const toAlbumOptions = (albums: any[]): Option[] =>
+  albums.map(album => ({ value: album.id, label: `${album.albumName} (${album.assetCount})` }));
+
+const toPeopleOptions = (data: { people: any[] }): Option[] =>
+  data.people
+    .filter(person => person.name && !person.isHidden)
+    .map(person => ({ value: person.id, label: person.name }));
+
+interface SettingsFormProps {
+  config: PublicConfig;
+  // The profile to edit, null for the default settings.
+  profile?: string | null;
+  onSaved?: () => void;
+  // Called when saving fails because the PIN session ran out.
+  onLocked?: () => void;
+  // Without a PIN anyone on the network can change the settings, which the form warns about.
+  pinRequired?: boolean;
+}
+export function SettingsForm({ config, profile = null, onSaved, onLocked, pinRequired = false }: SettingsFormProps) {
+  const { toast } = useToast();
+  const [tab, setTab] = useState<SettingsTab>('source');
+  const [hasApiKey, setHasApiKey] = useState(config.source.hasApiKey);
+  const albums = useImmichOptions('albums', toAlbumOptions);
+  const people = useImmichOptions('people', toPeopleOptions);
+
+  const form = useForm<FrameSettings>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: toProfileValues(config, profile),
+  });
+
+  const showSection = (section: string) => {
+    const sectionTab = SECTION_TABS[section as keyof FrameSettings];
+    if (sectionTab) setTab(sectionTab);
+  };
+
+  const onInvalid = (errors: FieldErrors<FrameSettings>) => {
+    const [section] = Object.keys(errors);
+    if (section) showSection(section);
+    toast({ variant: 'destructive', title: 'Some settings are invalid', description: 'Check the highlighted fields.' });
+  };
+
+  const onSubmit = async (values: FrameSettings) => {
+    // A profile stores what differs from the default settings.
+    const update = profile
+      ? { profiles: { ...config.profiles, [profile]: getProfileOverrides(toFormValues(config), values) } }
+      : values;
+
+    try {
+      const response = await fetch(CONFIG_URL, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      const body = await response.json().catch(() => ({}));
+
+      if (response.status === 401) onLocked?.();
+      if (!response.ok) {
+        const issues: ZodIssue[] = body.issues ?? [];
+        // Profile issues are reported under profiles.<name>.
+        const paths = issues.map(issue => (profile ? issue.path.slice(2) : issue.path));
+        issues.forEach((issue, index) => form.setError(paths[index].join('.') as SettingName, { message: issue.message }));
+        if (paths.length > 0) showSection(String(paths[0][0]));
+        throw new Error(body.message || `Server responded with ${response.status}`);
+      }
+
+      form.reset(toProfileValues(body, profile));
+      setHasApiKey(body.source.hasApiKey);
+      onSaved?.();
+      toast({ title: 'Settings saved', description: 'Frames pick up the changes within a few minutes.' });
+    } catch (e: any) {
+      console.error("Failed to save settings:", e);
+      toast({ variant: 'destructive', title: 'Could not save settings', description: e.message });
+    }
+  };
+
+  const { isSubmitting, isDirty } = form.formState;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit, onInvalid)} className="space-y-6">
+        <Tabs value={tab} onValueChange={value => setTab(value as SettingsTab)}>
+          <TabsList className="grid w-full grid-cols-5">
+            <TabsTrigger value="source">Source</TabsTrigger>
+            <TabsTrigger value="playback">Playback</TabsTrigger>
+            <TabsTrigger value="widgets">Widgets</TabsTrigger>
+            <TabsTrigger value="schedule">Schedule</TabsTrigger>
+            <TabsTrigger value="display">Display</TabsTrigger>
+          </TabsList>
+
+          {/* Content is kept mounted so switching tabs never drops unsaved edits */}
+          <TabsContent value="source" forceMount className="space-y-6 data-[state=inactive]:hidden">
+            {/* Every profile uses the same server */}
+            {!profile && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Immich Server</CardTitle>
+                  <CardDescription>The frame reaches the server through its own proxy, so the API key stays on the server.</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {!pinRequired && (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>No PIN is set</AlertTitle>
+                      <AlertDescription>
+                        Anyone on your network can change these settings, including which server the frame
+                        shows photos from. Set a PIN below to prevent that.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <TextField name="source.serverUrl" label="Server URL" type="url" placeholder="http://immich.local:2283" />
+                  <TextField
+                    name="source.apiKey"
+                    label="API Key"
+                    type="password"
+                    placeholder={hasApiKey ? 'Saved, leave empty to keep it' : ''}
+                    description={hasApiKey ? 'Needs to be entered again when the server URL changes.' : undefined}
+                  />
+                </CardContent>
+              </Card>
+            )}
+            <Card>
+              <CardHeader>
+                <CardTitle>Albums & People</CardTitle>
+                <CardDescription>Leave both empty to play the whole library.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ListField
+                  name="source.albums"
+                  label="Albums"
+                  description="Album IDs or names, separated by commas."
+                  options={albums}
+                />
+                <ListField
+                  name="source.personIds"
+                  label="People"
+                  description="Person IDs, separated by commas."
+                  options={people}
+                />
+                <SelectField
+                  name="source.personMatch"
+                  label="Match People"
+                  options={[
+                    { value: 'any', label: 'Any of them is in the photo' },
+                    { value: 'all', label: 'All of them are in the photo' },
+                  ]}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Filters</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <SwitchField name="source.favoritesOnly" label="Favorites Only" />
+                <SwitchField name="source.includeArchived" label="Include Archived" />
+                <TextField
+                  name="source.hiddenTag"
+                  label="Hidden Tag"
+                  description="Immich tag added to photos hidden on the frame. Leave empty to remember them on this device only."
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="playback" forceMount className="space-y-6 data-[state=inactive]:hidden">
+            <Card>
+              <CardHeader>
+                <CardTitle>Slideshow</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <NumberField name="playback.duration" label="Photo Duration (seconds)" scale={1000} min={1} step={1} />
+                <SelectField
+                  name="playback.order"
+                  label="Order"
+                  options={[
+                    { value: 'reverse-chronological', label: 'Newest first' },
+                    { value: 'chronological', label: 'Oldest first' },
+                    { value: 'shuffle', label: 'Shuffle' },
+                    { value: 'random', label: 'Random' },
+                  ]}
+                />
+                <SelectField
+                  name="playback.mode"
+                  label="Mode"
+                  options={[
+                    { value: 'timeline', label: 'Timeline' },
+                    { value: 'memories', label: 'On this day in past years' },
+                  ]}
+                />
+                <SwitchField name="playback.portraitPairing" label="Pair Portraits" description="Show two portrait photos side by side." />
+                <NumberField
+                  name="playback.collageEvery"
+                  label="Collage Every N Slides"
+                  description="Gathers photos taken on the same day into a collage. 0 turns collages off."
+                  min={0}
+                  step={1}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Transitions</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <SelectField name="playback.imageTransition" label="Photos" options={TRANSITIONS} />
+                <SelectField
+                  name="playback.videoTransition"
+                  label="Videos"
+                  options={TRANSITIONS.filter(option => option.value !== 'kenburns')}
+                />
+                <SliderField name="playback.transitionDuration" label="Duration" min={0} max={5000} step={100} format={seconds} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Videos</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <NumberField
+                  name="video.maxDuration"
+                  label="Maximum Length (seconds)"
+                  description="0 plays videos to the end."
+                  min={0}
+                  step={1}
+                />
+                <SelectField
+                  name="video.longVideoMode"
+                  label="Longer Videos"
+                  options={[
+                    { value: 'cut', label: 'Play the beginning' },
+                    { value: 'skip', label: 'Skip them' },
+                  ]}
+                />
+                <SelectField
+                  name="video.audio"
+                  label="Sound"
+                  description="Scheduled sound is muted during quiet hours."
+                  options={[
+                    { value: 'muted', label: 'Muted' },
+                    { value: 'unmuted', label: 'On' },
+                    { value: 'scheduled', label: 'Scheduled' },
+                  ]}
+                />
+                <SliderField name="video.volume" label="Volume" min={0} max={100} format={value => `${value}%`} />
+                <SwitchField name="video.audioFade" label="Fade Sound" description="Fade the sound in and out with the transition." />
+                <SwitchField name="video.livePhotos" label="Live Photos" description="Play the motion clip before showing the still." />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="widgets" forceMount className="space-y-6 data-[state=inactive]:hidden">
+            <Card>
+              <CardHeader>
+                <CardTitle>Weather & Air Quality</CardTitle>
+                <CardDescription>Shown when a location and an OpenWeather API key are set.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <NumberField name="weather.latitude" label="Latitude" nullable min={-90} max={90} step="any" />
+                  <NumberField name="weather.longitude" label="Longitude" nullable min={-180} max={180} step="any" />
+                </div>
+                <TextField name="weather.apiKey" label="OpenWeather API Key" type="password" />
+              </CardContent>
+            </Card>
+            {(Object.keys(WIDGETS) as WidgetId[]).map(id => (
+              <Card key={id}>
+                <CardHeader>
+                  <CardTitle>{WIDGETS[id].label}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <SwitchField name={`widgets.${id}.enabled`} label="Show" />
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <SelectField name={`widgets.${id}.slot`} label="Corner" options={WIDGET_SLOT_OPTIONS} />
+                    <SelectField name={`widgets.${id}.size`} label="Size" options={WIDGET_SIZE_OPTIONS} />
+                  </div>
+                  <SliderField name={`widgets.${id}.opacity`} label="Opacity" min={10} max={100} step={5} format={value => `${value}%`} />
+                </CardContent>
+              </Card>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="schedule" forceMount className="space-y-6 data-[state=inactive]:hidden">
+            <Card>
+              <CardHeader>
+                <CardTitle>Quiet Hours</CardTitle>
+                <CardDescription>A local time range such as 21:00-07:00. Leave empty for none.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <TextField name="schedule.quietHours" label="Quiet Hours" placeholder="21:00-07:00" />
+                <SwitchField name="schedule.skipVideosInQuietHours" label="Skip Videos" description="Leave videos out during quiet hours." />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="display" forceMount className="space-y-6 data-[state=inactive]:hidden">
+            <Card>
+              <CardHeader>
+                <CardTitle>Display</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <SelectField
+                  name="display.imageFit"
+                  label="Photo Fit"
+                  options={[
+                    { value: 'contain', label: 'Show the whole photo' },
+                    { value: 'cover', label: 'Fill the screen' },
+                  ]}
+                />
+                <SwitchField name="display.clock24Hour" label="24-Hour Clock" />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" disabled={!isDirty || isSubmitting} onClick={() => form.reset()}>
+            Discard Changes
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { ConfigProvider, useLoadConfig } from '@/hooks/useConfig';
+import { PhotoFrame } from './PhotoFrame';
+import { LoadingScreen, ErrorScreen } from './StatusScreens';
+
+interface ConfiguredFrameProps {
+  // Named profile to show, null for the default settings.
+  profile?: string | null;
+}
+export function ConfiguredFrame({ profile = null }: ConfiguredFrameProps) {
+  const { config, version, error } = useLoadConfig(profile);
+
+  if (!config) return error ? <ErrorScreen error={error} /> : <LoadingScreen />;
+
+  // Restart the frame whenever the saved settings change.
+  return (
+    <ConfigProvider config={config} profile={profile}>
+      <PhotoFrame key={version} />
+    </ConfigProvider>
+  );
+}
@@ -2,13 +2,18 @@
 "use client";
 
 import type { WeatherData, AirPollutionData, ImmichAsset } from '@/lib/types';
-import { format } from 'date-fns';
+import { useState } from 'react';
+import { differenceInCalendarYears, format } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
 import { cn } from '@/lib/utils';
+import { usePinGate } from '@/hooks/usePinLock';
+import { PinPrompt } from './PinPrompt';
 import { Progress } from "@/components/ui/progress";
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Button } from '@/components/ui/button';
 import { Calendar as CalendarPicker } from '@/components/ui/calendar';
-import { Sun, Cloud, CloudRain, Snowflake, CloudSun, Zap, Wind, Droplets, Thermometer, Camera, Aperture, MapPin, Calendar, Settings, Hash } from 'lucide-react';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Sun, Cloud, CloudRain, Snowflake, CloudSun, Zap, Wind, Droplets, Thermometer, Camera, Aperture, MapPin, Calendar, Settings, Hash, Users, EyeOff, Pause, Play, Clock, Loader2 } from 'lucide-react';
 
 // --- Helper Functions ---
 const getWeatherInfo = (code: number): { Icon: React.ElementType, name: string } => {
@@ -39,8 +44,10 @@ interface TimeWidgetProps {
   currentTime: string;
   currentDate: string;
   progress: number;
+  isPaused?: boolean;
+  holdUntil?: number | null;
 }
-export function TimeWidget({ currentTime, currentDate, progress }: TimeWidgetProps) {
+export function TimeWidget({ currentTime, currentDate, progress, isPaused = false, holdUntil = null }: TimeWidgetProps) {
   return (
     <div className="w-[240px] space-y-1 rounded-lg bg-black/30 p-3 backdrop-blur-sm">
       <div className="text-5xl font-semibold">
@@ -49,9 +56,15 @@ export function TimeWidget({ currentTime, currentDate, progress }: TimeWidgetPro
       <div className="text-xl font-medium text-white/90">
         {currentDate}
       </div>
-      <div className="w-full pt-2">
+      <div className="flex w-full items-center gap-2 pt-2">
+        {isPaused && <Pause size={12} className="shrink-0 text-white/80" aria-label="Paused" />}
         <Progress value={progress} className="h-1 bg-white/20 [&>div]:bg-white" />
       </div>
+      {holdUntil && (
+        <div className="text-xs text-white/70">
+          Held until {format(holdUntil, 'h:mm a')}
+        </div>
+      )}
     </div>
   );
 }
@@ -66,29 +79,27 @@ export function WeatherWidget({ weather }: WeatherWidgetProps) {
   const weatherInfo = getWeatherInfo(weather.weatherCode);
 
   return (
-    <div className="pointer-events-none absolute top-4 right-4 text-white">
-      <div className="space-y-1 rounded-lg bg-black/30 p-3 backdrop-blur-sm text-right">
-        <div className="flex items-center justify-end gap-2">
-          <span className="text-4xl font-bold">{weather.temperature}°</span>
-          <weatherInfo.Icon size={36} className="shrink-0" />
-        </div>
-        <div className="text-sm font-medium text-white/90 capitalize">
-          {weather.description}
+    <div className="space-y-1 rounded-lg bg-black/30 p-3 backdrop-blur-sm text-right">
+      <div className="flex items-center justify-end gap-2">
+        <span className="text-4xl font-bold">{weather.temperature}°</span>
+        <weatherInfo.Icon size={36} className="shrink-0" />
+      </div>
+      <div className="text-sm font-medium text-white/90 capitalize">
+        {weather.description}
+      </div>
+      <div className="flex flex-col items-end text-xs text-white/80 pt-1">
+        <div className="flex items-center gap-1.5">
+          <Thermometer size={14} />
+          <span>Feels like {weather.feelsLike}°</span>
         </div>
-        <div className="flex flex-col items-end text-xs text-white/80 pt-1">
+        <div className="flex items-center gap-2">
           <div className="flex items-center gap-1.5">
-            <Thermometer size={14} />
-            <span>Feels like {weather.feelsLike}°</span>
+            <Wind size={14} />
+            <span>{weather.windSpeed} km/h</span>
           </div>
-          <div className="flex items-center gap-2">
-            <div className="flex items-center gap-1.5">
-              <Wind size={14} />
-              <span>{weather.windSpeed} km/h</span>
-            </div>
-            <div className="flex items-center gap-1.5">
-              <Droplets size={14} />
-              <span>{weather.humidity}%</span>
-            </div>
+          <div className="flex items-center gap-1.5">
+            <Droplets size={14} />
+            <span>{weather.humidity}%</span>
           </div>
         </div>
       </div>
@@ -100,32 +111,26 @@ export function WeatherWidget({ weather }: WeatherWidgetProps) {
 // --- Air Pollution Widget ---
 interface AirPollutionWidgetProps {
   airPollution: AirPollutionData | null;
-  children: React.ReactNode;
 }
-export function AirPollutionWidget({ airPollution, children }: AirPollutionWidgetProps) {
+export function AirPollutionWidget({ airPollution }: AirPollutionWidgetProps) {
   if (!airPollution) return null;
   const aqiInfo = getAqiInfo(airPollution.main.aqi);
 
   return (
-    <div className="pointer-events-none absolute top-4 left-4 text-white">
-      <div className="relative space-y-1 rounded-lg bg-black/30 p-3 backdrop-blur-sm text-left">
-        <div className="flex items-center gap-3">
-          <Wind size={24} />
-          <div className='flex items-baseline gap-2'>
-            <span className="text-3xl font-bold">{airPollution.main.aqi}</span>
-            <span className={cn("text-xl font-medium", aqiInfo.color)}>{aqiInfo.label}</span>
-          </div>
-        </div>
-        <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs text-white/80 pt-1">
-          <span>PM2.5: {airPollution.components.pm2_5.toFixed(1)}</span>
-          <span>NO₂: {airPollution.components.no2.toFixed(1)}</span>
-          <span>PM10: {airPollution.components.pm10.toFixed(1)}</span>
-          <span>SO₂: {airPollution.components.so2.toFixed(1)}</span>
-        </div>
-        <div className="absolute bottom-1 right-1">
-          {children}
+    <div className="space-y-1 rounded-lg bg-black/30 p-3 backdrop-blur-sm text-left">
+      <div className="flex items-center gap-3">
+        <Wind size={24} />
+        <div className='flex items-baseline gap-2'>
+          <span className="text-3xl font-bold">{airPollution.main.aqi}</span>
+          <span className={cn("text-xl font-medium", aqiInfo.color)}>{aqiInfo.label}</span>
         </div>
       </div>
+      <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs text-white/80 pt-1">
+        <span>PM2.5: {airPollution.components.pm2_5.toFixed(1)}</span>
+        <span>NO₂: {airPollution.components.no2.toFixed(1)}</span>
+        <span>PM10: {airPollution.components.pm10.toFixed(1)}</span>
+        <span>SO₂: {airPollution.components.so2.toFixed(1)}</span>
+      </div>
     </div>
   );
 }
@@ -134,33 +139,87 @@ export function AirPollutionWidget({ airPollution, children }: AirPollutionWidge
 // --- Settings Popover ---
 interface SettingsPopoverProps {
   onDateSelect: (date: Date) => void;
+  onRangeSelect: (from: Date, to: Date) => void;
   onDateReset: () => void;
+  allowRange?: boolean;
+  isPaused: boolean;
+  onTogglePause: () => void;
+  onHold: () => void;
 }
-export function SettingsPopover({ onDateSelect, onDateReset }: SettingsPopoverProps) {
+export function SettingsPopover({ onDateSelect, onRangeSelect, onDateReset, allowRange = true, isPaused, onTogglePause, onHold }: SettingsPopoverProps) {
+  const [range, setRange] = useState<DateRange | undefined>();
+  // With a PIN set, the settings have to be unlocked each time they are opened.
+  const [isOpen, setIsOpen] = useState(false);
+  const { status, error, isUnlocked, unlock } = usePinGate(isOpen);
+
   return (
-    <Popover>
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
       <PopoverTrigger asChild>
         <Button variant="ghost" size="icon" className='pointer-events-auto h-6 w-6 text-white/50 hover:text-white hover:bg-black/30 backdrop-blur-sm'>
           <Settings className="h-3 w-3" />
         </Button>
       </PopoverTrigger>
       <PopoverContent className="w-auto">
-        <div className="grid gap-4">
-          <div className="space-y-2">
-            <h4 className="font-medium leading-none">Timeline Settings</h4>
-            <p className="text-sm text-muted-foreground">Jump to a specific date.</p>
-          </div>
-          <div className='flex flex-col items-center gap-2'>
-            <CalendarPicker
-              mode="single"
-              onSelect={(date) => date && onDateSelect(date)}
-              initialFocus
-            />
-            <Button variant="outline" onClick={onDateReset} className='w-full'>
-              Reset to Latest
-            </Button>
+        {!isUnlocked ? (
+          status ? (
+            <PinPrompt onUnlock={unlock} lockedUntil={status.lockedUntil} />
+          ) : error ? (
+            <p className="w-64 text-sm text-destructive">{error}</p>
+          ) : (
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          )
+        ) : (
+          <div className="grid gap-4">
+            <div className="space-y-2">
+              <h4 className="font-medium leading-none">Playback</h4>
+              <div className='grid grid-cols-2 gap-2'>
+                <Button variant="outline" onClick={onTogglePause}>
+                  {isPaused ? <Play className="mr-2 h-4 w-4" /> : <Pause className="mr-2 h-4 w-4" />}
+                  {isPaused ? 'Resume' : 'Pause'}
+                </Button>
+                <Button variant="outline" onClick={onHold}>
+                  <Clock className="mr-2 h-4 w-4" />
+                  Hold 1 Hour
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <h4 className="font-medium leading-none">Timeline Settings</h4>
+              <p className="text-sm text-muted-foreground">
+                {allowRange ? 'Jump to a date, or pick a range to play only that window.' : 'Jump to a specific date.'}
+              </p>
+            </div>
+            <div className='flex flex-col items-center gap-2'>
+              {allowRange ? (
+                <>
+                  <CalendarPicker
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    initialFocus
+                  />
+                  <div className='grid w-full grid-cols-2 gap-2'>
+                    <Button variant="outline" disabled={!range?.from} onClick={() => range?.from && onDateSelect(range.from)}>
+                      Jump to Date
+                    </Button>
+                    <Button disabled={!range?.from || !range?.to} onClick={() => range?.from && range.to && onRangeSelect(range.from, range.to)}>
+                      Play Range
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <CalendarPicker
+                  mode="single"
+                  onSelect={(date) => date && onDateSelect(date)}
+                  initialFocus
+                />
+              )}
+              <Button variant="outline" onClick={() => { setRange(undefined); onDateReset(); }} className='w-full'>
+                Reset to Latest
+              </Button>
+            </div>
           </div>
-        </div>
+        )}
       </PopoverContent>
     </Popover>
   );
@@ -170,14 +229,23 @@ export function SettingsPopover({ onDateSelect, onDateReset }: SettingsPopoverPr
 // --- Photo Details Widget ---
 interface PhotoDetailsWidgetProps {
   asset: ImmichAsset | undefined | null;
+  // Shows how many years before this date the photo was taken, e.g. the day memories are played for.
+  yearsAgoFrom?: Date;
+  onHide?: () => void;
 }
-export function PhotoDetailsWidget({ asset }: PhotoDetailsWidgetProps) {
+export function PhotoDetailsWidget({ asset, yearsAgoFrom, onHide }: PhotoDetailsWidgetProps) {
   if (!asset) return null;
 
   const { id, exifInfo, fileCreatedAt } = asset;
   const location = [exifInfo?.city, exifInfo?.state].filter(Boolean).join(', ');
   const photoDate = fileCreatedAt ? new Date(fileCreatedAt) : null;
   const isDateValid = photoDate && !isNaN(photoDate.getTime());
+  const yearsAgo = yearsAgoFrom && isDateValid && photoDate ? differenceInCalendarYears(yearsAgoFrom, photoDate) : 0;
+
+  const people = (asset.people ?? [])
+    .filter(person => person.name && !person.isHidden)
+    .map(person => person.name)
+    .join(', ');
 
   const camera = [exifInfo?.make, exifInfo?.model].filter(Boolean).join(' ');
   const exposure = [
@@ -186,7 +254,7 @@ export function PhotoDetailsWidget({ asset }: PhotoDetailsWidgetProps) {
     exifInfo?.iso ? `ISO ${exifInfo.iso}` : null,
   ].filter(Boolean).join(' • ');
 
-  if (!isDateValid && !location && !camera && !exposure) {
+  if (!isDateValid && !location && !people && !camera && !exposure) {
     return null;
   }
 
@@ -196,6 +264,9 @@ export function PhotoDetailsWidget({ asset }: PhotoDetailsWidgetProps) {
         {isDateValid && photoDate && (
           <div className="flex items-center gap-2 text-base text-white/90">
             <span>{format(photoDate, 'MMMM d, yyyy')}</span>
+            {yearsAgo > 0 && (
+              <span className="text-white/70">· {yearsAgo} {yearsAgo === 1 ? 'year' : 'years'} ago</span>
+            )}
             <Calendar size={18} className="shrink-0" />
           </div>
         )}
@@ -205,6 +276,12 @@ export function PhotoDetailsWidget({ asset }: PhotoDetailsWidgetProps) {
             <MapPin size={18} className="shrink-0" />
           </div>
         )}
+        {people && (
+          <div className="flex items-center gap-2 text-base text-white/90">
+            <span>{people}</span>
+            <Users size={18} className="shrink-0" />
+          </div>
+        )}
         {camera && (
           <div className="flex items-center gap-2 text-base text-white/90">
             <span className='truncate'>{camera}</span>
@@ -219,6 +296,7 @@ export function PhotoDetailsWidget({ asset }: PhotoDetailsWidgetProps) {
         )}
         {id && (
           <div className="flex items-center gap-2 text-xs text-white/60 pt-2">
+            {onHide && <HideAssetButton onConfirm={onHide} />}
             <span className='font-mono'>{id}</span>
             <Hash size={14} className="shrink-0" />
           </div>
@@ -227,3 +305,58 @@ export function PhotoDetailsWidget({ asset }: PhotoDetailsWidgetProps) {
     </div>
   );
 }
+
+
+// --- Hide Asset Button ---
+interface HideAssetButtonProps {
+  onConfirm: () => void;
+}
+// Hiding also tags the photo in Immich, which affects every frame, so it asks for the PIN
+// like the settings do.
+function HideAssetButton({ onConfirm }: HideAssetButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { status, error, isUnlocked, unlock } = usePinGate(isOpen);
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={setIsOpen}>
+      <AlertDialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Hide this photo" className='pointer-events-auto h-6 w-6 text-white/50 hover:text-white hover:bg-black/30'>
+          <EyeOff className="h-3 w-3" />
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent className={isUnlocked ? undefined : 'w-auto'}>
+        {!isUnlocked ? (
+          <>
+            <AlertDialogHeader className="sr-only">
+              <AlertDialogTitle>PIN required</AlertDialogTitle>
+              <AlertDialogDescription>Enter the PIN to hide photos.</AlertDialogDescription>
+            </AlertDialogHeader>
+            {status ? (
+              <PinPrompt onUnlock={unlock} lockedUntil={status.lockedUntil} description="Enter the PIN to hide photos." />
+            ) : error ? (
+              <p className="w-64 text-sm text-destructive">{error}</p>
+            ) : (
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            )}
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+            </AlertDialogFooter>
+          </>
+        ) : (
+          <>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Hide this photo?</AlertDialogTitle>
+              <AlertDialogDescription>
+                It will be skipped on this frame from now on, including on future loops of the timeline.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={onConfirm}>Hide Photo</AlertDialogAction>
+            </AlertDialogFooter>
+          </>
+        )}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -1,30 +1,85 @@
-
 "use client";
 
-import type { MediaAsset } from '@/lib/types';
+import type { Slide } from '@/lib/types';
 import Image from 'next/image';
 import { cn } from '@/lib/utils';
-import type { RefObject } from 'react';
+import { getKenBurnsFrames, getKenBurnsStyle, getPanStyle, getTransitionEffect, getTransitionStyle, type TransitionPhase } from '@/lib/transitions';
+import { fadeVolume, getVideoVolume } from '@/lib/video';
+import { getAspectRatio, getFocusPoint, getObjectPosition, getPanorama } from '@/lib/framing';
+import { useEffect, useRef, useState, type RefObject } from 'react';
+import { useConfig } from '@/hooks/useConfig';
+
+// Mosaic templates by photo count: grid classes for the container and for each cell.
+const COLLAGE_GRIDS: Record<number, { grid: string; cells: string[] }> = {
+  3: { grid: "grid-cols-2 grid-rows-2", cells: ["row-span-2"] },
+  4: { grid: "grid-cols-2 grid-rows-2", cells: [] },
+  5: { grid: "grid-cols-6 grid-rows-2", cells: ["col-span-3", "col-span-3", "col-span-2", "col-span-2", "col-span-2"] },
+  6: { grid: "grid-cols-3 grid-rows-2", cells: [] },
+};
 
 interface MediaRendererProps {
-  media: MediaAsset;
+  slide: Slide;
   isVisible: boolean;
   isCurrent: boolean;
+  displayDuration?: number;
+  isPaused?: boolean;
   videoRef?: RefObject<HTMLVideoElement>;
   onVideoEnd?: () => void;
+  onVideoProgress?: (video: HTMLVideoElement) => void;
 }
 
-export function MediaRenderer({ media, isVisible, isCurrent, videoRef, onVideoEnd }: MediaRendererProps) {
-  const containerClasses = cn(
-    "absolute inset-0 transition-opacity duration-500",
-    isVisible ? 'opacity-100' : 'opacity-0'
-  );
+export function MediaRenderer({ slide, isVisible, isCurrent, displayDuration = 0, isPaused = false, videoRef, onVideoEnd, onVideoProgress }: MediaRendererProps) {
+  const config = useConfig();
+  const { transitionDuration } = config.playback;
+  const media = slide.media[0];
+  const effect = getTransitionEffect(media.type, config.playback);
+
+  // Start in the "enter" pose and switch to "visible" on the next frame so the enter
+  // transition actually runs when this renderer mounts.
+  const [hasEntered, setHasEntered] = useState(false);
+  useEffect(() => {
+    if (!isCurrent) return;
+    const frame = requestAnimationFrame(() => setHasEntered(true));
+    return () => cancelAnimationFrame(frame);
+  }, [isCurrent]);
+
+  // A Live Photo's clip shows once it is actually playing and fades out when it ends.
+  const motionRef = useRef<HTMLVideoElement>(null);
+  const [motionState, setMotionState] = useState<'loading' | 'playing' | 'done'>('loading');
+  useEffect(() => {
+    const motion = motionRef.current;
+    if (!motion || motionState === 'done') return;
+    if (isPaused) motion.pause();
+    else motion.play().catch(() => setMotionState('done'));
+  }, [isPaused, motionState]);
+
+  // Sound follows the audio policy at the time the video comes up, fading in and out with
+  // the transition when configured.
+  const [volume] = useState(() => (media.type === 'VIDEO' ? getVideoVolume(config) : 0));
+  useEffect(() => {
+    const video = videoRef?.current;
+    if (!isCurrent || !video || volume === 0) return;
+
+    const target = isVisible ? volume : 0;
+    if (!config.video.audioFade) {
+      video.volume = target;
+      return;
+    }
+    return fadeVolume(video, isVisible ? 0 : video.volume, target, transitionDuration);
+  }, [isCurrent, isVisible, volume, videoRef, config.video.audioFade, transitionDuration]);
+
+  let phase: TransitionPhase = 'enter';
+  if (isCurrent && hasEntered) phase = isVisible ? 'visible' : 'exit';
+
+  const containerClasses = "absolute inset-0";
+  // Preloaded media stays hidden whatever the effect's enter pose is.
+  const containerStyle = isCurrent ? getTransitionStyle(effect, phase, transitionDuration) : { opacity: 0 };
 
   const backgroundUrl = media.previewUrl;
 
   if (media.type === 'VIDEO') {
     return (
-      <div className={containerClasses}>
+      <div className={containerClasses} style={containerStyle}>
         {/* Blurred Background */}
         <Image
           src={backgroundUrl}
@@ -34,22 +89,44 @@ export function MediaRenderer({ media, isVisible, isCurrent, videoRef, onVideoEn
           className="object-cover blur-2xl scale-110"
         />
         <div className="absolute inset-0 bg-black/50"></div>
-        
+
         {/* Main Video */}
         <video
           ref={isCurrent ? videoRef : null}
           src={media.url}
+          preload={isCurrent ? "auto" : "metadata"}
           onEnded={onVideoEnd}
-          muted
+          onError={onVideoEnd} // A stream that fails is skipped
+          onLoadedMetadata={event => onVideoProgress?.(event.currentTarget)}
+          onTimeUpdate={event => onVideoProgress?.(event.currentTarget)}
+          muted={!isCurrent || volume === 0}
           className="absolute object-contain h-full w-full"
         />
       </div>
     );
   }
 
+  const viewport = { width: window.innerWidth, height: window.innerHeight };
+  // Panoramas are panned across at full screen height (or width) instead of letterboxed.
+  const panorama = slide.layout === 'single' ? getPanorama(media.asset, viewport) : null;
+  const panStyle = panorama && isCurrent && displayDuration > 0
+    ? getPanStyle(panorama.direction, displayDuration, isPaused)
+    : undefined;
+
+  // Ken Burns frames are computed for a full-screen image, so pairs and collages are shown still.
+  const isKenBurns = effect === 'kenburns' && isCurrent && displayDuration > 0 && slide.layout === 'single' && !panorama;
+  const fitClass = config.display.imageFit === 'cover' ? "object-cover" : "object-contain";
+  const kenBurnsStyle = isKenBurns
+    ? getKenBurnsStyle(
+        getKenBurnsFrames(media.id, getFocusPoint(media.focus, getAspectRatio(media.asset), viewport, config.display.imageFit)),
+        displayDuration,
+        isPaused,
+      )
+    : undefined;
+
   // Image Renderer
   return (
-    <div className={containerClasses}>
+    <div className={containerClasses} style={containerStyle}>
       {/* Blurred Background */}
       <Image
         src={media.previewUrl}
@@ -60,14 +137,84 @@ export function MediaRenderer({ media, isVisible, isCurrent, videoRef, onVideoEn
       />
       <div className="absolute inset-0 bg-black/50"></div>
 
-      {/* Main Image */}
-      <Image
-        src={media.url}
-        alt="Immich Photo"
-        fill
-        className="object-contain"
-        priority={isCurrent}
-      />
+      {slide.layout === 'collage' ? (
+        /* Collage, always cropped to fill its cells */
+        <div className={cn("absolute inset-0 grid gap-1", COLLAGE_GRIDS[slide.media.length]?.grid)}>
+          {slide.media.map((item, index) => (
+            <div key={item.id} className={cn("relative overflow-hidden", COLLAGE_GRIDS[slide.media.length]?.cells[index])}>
+              <Image
+                src={item.url}
+                alt="Immich Photo"
+                fill
+                className="object-cover"
+                style={{ objectPosition: getObjectPosition(item.focus) }}
+                priority={isCurrent}
+              />
+            </div>
+          ))}
+        </div>
+      ) : slide.layout === 'pair' ? (
+        /* Portrait Pair */
+        <div className="absolute inset-0 flex gap-1">
+          {slide.media.map(item => (
+            <div key={item.id} className="relative h-full flex-1">
+              <Image
+                src={item.url}
+                alt="Immich Photo"
+                fill
+                className={fitClass}
+                style={{ objectPosition: getObjectPosition(item.focus) }}
+                priority={isCurrent}
+              />
+            </div>
+          ))}
+        </div>
+      ) : panorama ? (
+        /* Panorama, sized to fill the screen's short side and panned along the long one */
+        <div
+          className={cn("absolute left-0 top-0", panStyle && "animate-ken-burns")}
+          style={{
+            width: panorama.direction === 'horizontal' ? `${panorama.aspect * 100}vh` : '100vw',
+            height: panorama.direction === 'horizontal' ? '100vh' : `${100 / panorama.aspect}vw`,
+            ...panStyle,
+          }}
+        >
+          <Image
+            src={media.url}
+            alt="Immich Photo"
+            fill
+            className="object-cover"
+            priority={isCurrent}
+          />
+        </div>
+      ) : (
+        <>
+          {/* Main Image */}
+          <Image
+            src={media.url}
+            alt="Immich Photo"
+            fill
+            className={cn(fitClass, isKenBurns && "animate-ken-burns")}
+            style={{ objectPosition: getObjectPosition(media.focus), ...kenBurnsStyle }}
+            priority={isCurrent}
+          />
+
+          {/* Live Photo clip, animated like the still so it settles on it seamlessly */}
+          {isCurrent && media.motionUrl && (
+            <video
+              ref={motionRef}
+              src={media.motionUrl}
+              muted
+              playsInline
+              onPlaying={() => setMotionState('playing')}
+              onEnded={() => setMotionState('done')}
+              onError={() => setMotionState('done')}
+              className={cn("absolute inset-0 h-full w-full transition-opacity duration-500", fitClass, isKenBurns && "animate-ken-burns")}
+              style={{ objectPosition: getObjectPosition(media.focus), ...kenBurnsStyle, opacity: motionState === 'playing' ? 1 : 0 }}
+            />
+          )}
+        </>
+      )}
     </div>
   );
 }
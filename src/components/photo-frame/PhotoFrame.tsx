@@ -0,0 +1,101 @@
+"use client";
+
+import { useState } from 'react';
+
+import { useToast } from '@/hooks/use-toast';
+import { useClock } from '@/hooks/useClock';
+import { useWeather } from '@/hooks/useWeather';
+import { useImmich } from '@/hooks/useImmich';
+import { useSlideshow } from '@/hooks/useSlideshow';
+import { useControls } from '@/hooks/useControls';
+
+import { MediaRenderer } from '@/components/photo-frame/MediaRenderer';
+import { WidgetLayer } from '@/components/photo-frame/WidgetLayer';
+import { LoadingScreen, ErrorScreen, NoMediaScreen } from '@/components/photo-frame/StatusScreens';
+
+
+// The slideshow with its overlays. Rendered inside a ConfigProvider, see ConfiguredFrame.
+export function PhotoFrame() {
+  const { toast } = useToast();
+
+  // --- Custom Hooks ---
+  const { currentTime, currentDate } = useClock();
+  const { weather, airPollution } = useWeather();
+  const immich = useImmich();
+  
+  const {
+    currentSlide,
+    currentMedia,
+    nextSlide,
+    videoRef,
+    isLoading,
+    isFetching,
+    isFading,
+    progress,
+    displayDuration,
+    error,
+    mode,
+    memoriesDate,
+    handleTimelineChange,
+    handleVideoProgress,
+    advanceToNextAsset,
+    hideCurrentAsset,
+    isPaused,
+    holdUntil,
+    togglePause,
+    holdCurrent,
+    goBack,
+    goForward,
+    toggleFavorite,
+  } = useSlideshow(immich);
+
+  const [showOverlays, setShowOverlays] = useState(true);
+
+  const { gestureHandlers } = useControls({
+    next: goForward,
+    previous: goBack,
+    togglePause,
+    toggleOverlays: () => setShowOverlays(show => !show),
+    favorite: toggleFavorite,
+  });
+
+  // --- Render Logic ---
+
+  if (isLoading) return <LoadingScreen />;
+  if (error) return <ErrorScreen error={error} />;
+
+  return (
+    <main className="relative h-screen w-screen overflow-hidden bg-black">
+      {!currentSlide && !isFetching && <NoMediaScreen />}
+      
+      {/* Render current and next slides for smooth transition */}
+      {currentSlide && <MediaRenderer key={'current-' + currentSlide.id} slide={currentSlide} isVisible={!isFading} isCurrent={true} displayDuration={displayDuration} isPaused={isPaused} videoRef={videoRef} onVideoEnd={advanceToNextAsset} onVideoProgress={handleVideoProgress} />}
+      {nextSlide && <MediaRenderer key={'next-' + nextSlide.id} slide={nextSlide} isVisible={false} isCurrent={false} />}
+
+      {/* --- Gesture Layer --- */}
+      <div className="absolute inset-0 touch-none select-none" {...gestureHandlers} />
+
+      {/* --- Overlays --- */}
+      {showOverlays && (
+        <WidgetLayer
+          state={{
+            currentTime,
+            currentDate,
+            progress,
+            weather,
+            airPollution,
+            asset: currentMedia?.asset,
+            mode,
+            memoriesDate,
+            isPaused,
+            holdUntil,
+            onTimelineChange: handleTimelineChange,
+            onTogglePause: togglePause,
+            onHold: () => holdCurrent(),
+            onHide: hideCurrentAsset,
+          }}
+        />
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+
+interface PinPromptProps {
+  onUnlock: (pin: string) => Promise<string | null>;
+  lockedUntil?: number | null;
+  description?: string;
+}
+export function PinPrompt({ onUnlock, lockedUntil = null, description = 'Enter the PIN to change settings.' }: PinPromptProps) {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Re-enable entry once a lockout is over.
+  const isLocked = lockedUntil !== null && lockedUntil > now;
+  useEffect(() => {
+    if (!lockedUntil || lockedUntil <= Date.now()) return;
+    const timeout = setTimeout(() => {
+      setNow(Date.now());
+      setError(null);
+    }, lockedUntil - Date.now());
+    return () => clearTimeout(timeout);
+  }, [lockedUntil]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsChecking(true);
+    const message = await onUnlock(pin);
+    setIsChecking(false);
+    setPin('');
+    setError(message);
+    setNow(Date.now());
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid w-64 gap-3">
+      <div className="space-y-2">
+        <h4 className="flex items-center gap-2 font-medium leading-none">
+          <Lock className="h-4 w-4" />
+          Locked
+        </h4>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </div>
+      <Input
+        type="password"
+        inputMode="numeric"
+        autoComplete="off"
+        autoFocus
+        aria-label="PIN"
+        maxLength={12}
+        value={pin}
+        disabled={isLocked}
+        onChange={event => setPin(event.target.value.replace(/\D/g, ''))}
+      />
+      {(isLocked || error) && (
+        <p className="text-sm font-medium text-destructive">
+          {isLocked && lockedUntil ? `Too many wrong PINs. Try again after ${format(lockedUntil, 'h:mm a')}.` : error}
+        </p>
+      )}
+      <Button type="submit" disabled={pin.length < 4 || isChecking || isLocked}>
+        Unlock
+      </Button>
+    </form>
+  );
+}
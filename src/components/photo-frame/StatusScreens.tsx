@@ -3,11 +3,14 @@
 import { Loader2, AlertTriangle } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
-export function LoadingScreen() {
+interface LoadingScreenProps {
+  message?: string;
+}
+export function LoadingScreen({ message = "Searching for photos..." }: LoadingScreenProps) {
   return (
     <div className="flex h-screen w-screen flex-col items-center justify-center bg-background text-foreground">
       <Loader2 className="h-12 w-12 animate-spin text-primary" />
-      <p className="mt-4 text-lg">Searching for photos...</p>
+      <p className="mt-4 text-lg">{message}</p>
     </div>
   );
 }
@@ -0,0 +1,125 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import type { AirPollutionData, ImmichAsset, SlideshowMode, WeatherData } from '@/lib/types';
+import type { WidgetId, WidgetSize, WidgetSlot, WidgetsConfig } from '@/lib/config';
+import { WIDGET_SLOTS } from '@/lib/config';
+import { cn } from '@/lib/utils';
+import { useConfig } from '@/hooks/useConfig';
+import { TimeWidget, WeatherWidget, AirPollutionWidget, PhotoDetailsWidget, SettingsPopover } from './InfoWidgets';
+
+// What the frame hands its widgets to render.
+export interface WidgetState {
+  currentTime: string;
+  currentDate: string;
+  progress: number;
+  weather: WeatherData | null;
+  airPollution: AirPollutionData | null;
+  asset: ImmichAsset | null | undefined;
+  mode: SlideshowMode;
+  // Day picked for memories mode, null for today.
+  memoriesDate: Date | null;
+  isPaused: boolean;
+  holdUntil: number | null;
+  onTimelineChange: (date: Date | null, endDate?: Date) => void;
+  onTogglePause: () => void;
+  onHold: () => void;
+  onHide: () => void;
+}
+
+interface WidgetDefinition {
+  label: string;
+  render: (state: WidgetState) => ReactNode;
+}
+
+// Every widget the frame can show. Placement, size and opacity come from the `widgets`
+// config section, which has an entry for each of these.
+export const WIDGETS: Record<WidgetId, WidgetDefinition> = {
+  airQuality: {
+    label: 'Air Quality',
+    render: state => <AirPollutionWidget airPollution={state.airPollution} />,
+  },
+  settings: {
+    label: 'Settings Button',
+    render: state => (
+      <div className="rounded-lg bg-black/30 p-1 backdrop-blur-sm">
+        <SettingsPopover
+          onDateSelect={state.onTimelineChange}
+          onRangeSelect={state.onTimelineChange}
+          onDateReset={() => state.onTimelineChange(null)}
+          allowRange={state.mode === 'timeline'}
+          isPaused={state.isPaused}
+          onTogglePause={state.onTogglePause}
+          onHold={state.onHold}
+        />
+      </div>
+    ),
+  },
+  weather: {
+    label: 'Weather',
+    render: state => <WeatherWidget weather={state.weather} />,
+  },
+  time: {
+    label: 'Clock',
+    render: state => (
+      <TimeWidget
+        currentTime={state.currentTime}
+        currentDate={state.currentDate}
+        progress={state.progress}
+        isPaused={state.isPaused}
+        holdUntil={state.holdUntil}
+      />
+    ),
+  },
+  details: {
+    label: 'Photo Details',
+    render: state => (
+      <PhotoDetailsWidget
+        asset={state.asset}
+        yearsAgoFrom={state.mode === 'memories' ? state.memoriesDate ?? new Date() : undefined}
+        onHide={state.onHide}
+      />
+    ),
+  },
+};
+
+const SLOT_CLASSES: Record<WidgetSlot, string> = {
+  'top-left': "top-0 left-0 items-start",
+  'top-right': "top-0 right-0 items-end",
+  'bottom-left': "bottom-0 left-0 items-start justify-end",
+  'bottom-right': "bottom-0 right-0 items-end justify-end",
+};
+
+const SIZE_ZOOM: Record<WidgetSize, number> = {
+  small: 0.8,
+  medium: 1,
+  large: 1.25,
+};
+
+const widgetsIn = (layout: WidgetsConfig, slot: WidgetSlot) =>
+  (Object.keys(WIDGETS) as WidgetId[]).filter(id => layout[id].enabled && layout[id].slot === slot);
+
+// The frame's overlays, laid out by the widget config. Widgets in the same corner are
+// stacked in registry order.
+export function WidgetLayer({ state }: { state: WidgetState }) {
+  const layout = useConfig().widgets;
+
+  return (
+    <>
+      {WIDGET_SLOTS.map(slot => {
+        const ids = widgetsIn(layout, slot);
+        if (ids.length === 0) return null;
+        return (
+          <div key={slot} className={cn("pointer-events-none absolute flex max-h-full flex-col gap-3 p-4 md:p-6 text-white", SLOT_CLASSES[slot])}>
+            {ids.map(id => (
+              // Widgets without anything to show render nothing, so their wrapper is dropped too.
+              <div key={id} className="empty:hidden" style={{ zoom: SIZE_ZOOM[layout[id].size], opacity: layout[id].opacity / 100 }}>
+                {WIDGETS[id].render(state)}
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </>
+  );
+}
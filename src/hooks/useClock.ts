@@ -1,21 +1,23 @@
 "use client";
 
 import { useState, useEffect } from 'react';
+import { useConfig } from './useConfig';
 
 export function useClock() {
+  const { clock24Hour } = useConfig().display;
   const [currentTime, setCurrentTime] = useState('');
   const [currentDate, setCurrentDate] = useState('');
 
   useEffect(() => {
     const updateClock = () => {
       const now = new Date();
-      setCurrentTime(now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: true }));
+      setCurrentTime(now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: !clock24Hour }));
       setCurrentDate(now.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric' }));
     };
     updateClock();
     const clockInterval = setInterval(updateClock, 1000);
     return () => clearInterval(clockInterval);
-  }, []);
+  }, [clock24Hour]);
 
   return { currentTime, currentDate };
 }
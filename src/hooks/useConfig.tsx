@@ -0,0 +1,94 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import type { PublicConfig } from '@/lib/config';
+
+const CONFIG_URL = '/api/config';
+const REFRESH_INTERVAL = 5 * 60 * 1000; // Check for saved changes every 5 minutes
+
+const ConfigContext = createContext<PublicConfig | null>(null);
+const ProfileContext = createContext<string | null>(null);
+
+interface ConfigProviderProps {
+  config: PublicConfig;
+  profile?: string | null;
+  children: ReactNode;
+}
+export function ConfigProvider({ config, profile = null, children }: ConfigProviderProps) {
+  return (
+    <ConfigContext.Provider value={config}>
+      <ProfileContext.Provider value={profile}>{children}</ProfileContext.Provider>
+    </ConfigContext.Provider>
+  );
+}
+
+// The frame configuration, for hooks and components rendered inside a ConfigProvider.
+export function useConfig(): PublicConfig {
+  const config = useContext(ConfigContext);
+  if (!config) throw new Error('useConfig must be used within a ConfigProvider');
+  return config;
+}
+
+// The profile the frame shows, null for the default settings.
+export function useProfile(): string | null {
+  return useContext(ProfileContext);
+}
+
+// A localStorage key of its own for the current profile, so frames showing different
+// profiles in one browser don't overwrite each other's state. The default profile uses
+// `key` as is.
+export function useStorageKey(key: string): string {
+  const profile = useProfile();
+  return profile ? `${key}:${profile}` : key;
+}
+
+interface LoadConfigOptions {
+  // Whether to keep the profiles in the config. Frames leave them out, so editing another
+  // profile doesn't count as a change and restart them.
+  withProfiles?: boolean;
+}
+
+// Loads the configuration (with `profile` applied) from the server and keeps checking it
+// for changes. `version` goes up whenever the settings changed, so the frame can restart
+// with them. `reload` checks right away, e.g. after saving.
+export function useLoadConfig(profile: string | null = null, { withProfiles = false }: LoadConfigOptions = {}) {
+  const [config, setConfig] = useState<PublicConfig | null>(null);
+  const [version, setVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const latestRef = useRef('');
+
+  const load = useCallback(async () => {
+    const url = profile ? `${CONFIG_URL}?profile=${encodeURIComponent(profile)}` : CONFIG_URL;
+    try {
+      const response = await fetch(url, { cache: 'no-store' });
+      const text = await response.text();
+      if (!response.ok) {
+        const isJson = response.headers.get('content-type')?.includes('application/json');
+        const message = isJson ? JSON.parse(text).message : null;
+        throw new Error(message || `Server responded with ${response.status}`);
+      }
+
+      const loaded: PublicConfig = JSON.parse(text);
+      if (!withProfiles) loaded.profiles = {};
+      const serialized = JSON.stringify(loaded);
+      if (serialized !== latestRef.current) {
+        latestRef.current = serialized;
+        setConfig(loaded);
+        setVersion(v => v + 1);
+      }
+      setError(null);
+    } catch (e: any) {
+      // A frame that already has its settings keeps running with them.
+      console.error("Failed to load the frame configuration:", e);
+      setError(`Could not load the frame configuration: ${e.message}`);
+    }
+  }, [profile, withProfiles]);
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(load, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  return { config, version, error, reload: load };
+}
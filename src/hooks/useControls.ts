@@ -0,0 +1,179 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+import type { PointerEvent } from 'react';
+import type { ControlAction, Gesture } from '@/lib/types';
+import { useConfig } from './useConfig';
+
+// --- Configuration ---
+// Keys are KeyboardEvent.key values. Many TV remotes send the Media* keys, and the
+// arrow/Enter keys from their d-pad.
+const DEFAULT_KEY_MAP: Record<string, ControlAction | null> = {
+  ArrowRight: 'next',
+  MediaTrackNext: 'next',
+  MediaFastForward: 'next',
+  ArrowLeft: 'previous',
+  MediaTrackPrevious: 'previous',
+  MediaRewind: 'previous',
+  ' ': 'togglePause',
+  MediaPlayPause: 'togglePause',
+  MediaPlay: 'togglePause',
+  MediaPause: 'togglePause',
+  Enter: 'toggleOverlays',
+  ArrowUp: 'toggleOverlays',
+  ArrowDown: 'toggleOverlays',
+  i: 'toggleOverlays',
+  f: 'favorite',
+};
+
+const DEFAULT_GESTURE_MAP: Partial<Record<Gesture, ControlAction | null>> = {
+  swipeLeft: 'next',
+  swipeRight: 'previous',
+  tap: 'toggleOverlays',
+  longPress: 'togglePause',
+};
+
+const SWIPE_THRESHOLD = 50;     // px of travel before a touch counts as a swipe
+const LONG_PRESS_DURATION = 600; // ms
+
+type ControlHandlers = Record<ControlAction, () => void>;
+
+// Keys are left alone inside open popovers and dialogs (the settings popover with its
+// calendar, the hide confirmation...), so a remote can operate them. A focused button or
+// link keeps Enter and Space for pressing it; arrows still change slides, as focus stays on
+// the settings button after its popover closes.
+const OVERLAY_SELECTOR = '[role=dialog], [role=alertdialog]';
+const WIDGET_SELECTOR = `${OVERLAY_SELECTOR}, [role=grid], [role=listbox], [role=menu]`;
+const ACTIVATION_KEYS = ['Enter', ' '];
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const handlesOwnKeys = (event: KeyboardEvent) => {
+  const { target } = event;
+  if (isEditableTarget(target) || document.querySelector(OVERLAY_SELECTOR)) return true;
+  if (!(target instanceof Element)) return false;
+  return !!target.closest(WIDGET_SELECTOR) || (ACTIVATION_KEYS.includes(event.key) && !!target.closest('button, a'));
+};
+
+export function useControls(handlers: ControlHandlers) {
+  // Both maps can be overridden in the config, e.g. { "n": "next", "p": "previous" }.
+  // Mapping a key or gesture to null disables it.
+  const { controls } = useConfig();
+  const keyMap = useMemo(() => ({ ...DEFAULT_KEY_MAP, ...controls.keyMap }), [controls.keyMap]);
+  const gestureMap = useMemo<Partial<Record<Gesture, ControlAction | null>>>(
+    () => ({ ...DEFAULT_GESTURE_MAP, ...controls.gestureMap }),
+    [controls.gestureMap],
+  );
+
+  // Kept in a ref so listeners are attached once and always call the latest handlers.
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  const dispatch = useCallback((action: ControlAction | null | undefined) => {
+    if (action) handlersRef.current[action]?.();
+  }, []);
+
+  // Keyboard and remote keys
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (handlesOwnKeys(event) || event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const action = keyMap[event.key] ?? keyMap[event.key.toLowerCase()];
+      if (!action) return;
+
+      event.preventDefault();
+      dispatch(action);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [dispatch, keyMap]);
+
+  // Hardware media keys that the browser routes through the Media Session API instead
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    const actions: [MediaSessionAction, ControlAction][] = [
+      ['nexttrack', 'next'],
+      ['previoustrack', 'previous'],
+      ['play', 'togglePause'],
+      ['pause', 'togglePause'],
+    ];
+    for (const [sessionAction, action] of actions) {
+      try {
+        navigator.mediaSession.setActionHandler(sessionAction, () => dispatch(action));
+      } catch {
+        // Not every browser supports every action.
+      }
+    }
+
+    return () => {
+      for (const [sessionAction] of actions) {
+        try {
+          navigator.mediaSession.setActionHandler(sessionAction, null);
+        } catch {
+          // See above.
+        }
+      }
+    };
+  }, [dispatch]);
+
+  // Touch and mouse gestures, attached to a full-screen layer by the caller
+  const pointerStartRef = useRef<{ x: number; y: number } | null>(null);
+  const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressFiredRef = useRef(false);
+
+  const clearLongPress = () => {
+    if (longPressTimerRef.current) clearTimeout(longPressTimerRef.current);
+    longPressTimerRef.current = null;
+  };
+
+  const onPointerDown = useCallback((event: PointerEvent) => {
+    pointerStartRef.current = { x: event.clientX, y: event.clientY };
+    longPressFiredRef.current = false;
+    clearLongPress();
+    longPressTimerRef.current = setTimeout(() => {
+      longPressFiredRef.current = true;
+      dispatch(gestureMap.longPress);
+    }, LONG_PRESS_DURATION);
+  }, [dispatch, gestureMap]);
+
+  const onPointerMove = useCallback((event: PointerEvent) => {
+    const start = pointerStartRef.current;
+    if (!start) return;
+    // Any real movement means this is not a long press.
+    if (Math.hypot(event.clientX - start.x, event.clientY - start.y) > SWIPE_THRESHOLD / 2) {
+      clearLongPress();
+    }
+  }, []);
+
+  const onPointerUp = useCallback((event: PointerEvent) => {
+    const start = pointerStartRef.current;
+    pointerStartRef.current = null;
+    clearLongPress();
+    if (!start || longPressFiredRef.current) return;
+
+    const dx = event.clientX - start.x;
+    const dy = event.clientY - start.y;
+
+    let gesture: Gesture = 'tap';
+    if (Math.max(Math.abs(dx), Math.abs(dy)) >= SWIPE_THRESHOLD) {
+      if (Math.abs(dx) > Math.abs(dy)) {
+        gesture = dx < 0 ? 'swipeLeft' : 'swipeRight';
+      } else {
+        gesture = dy < 0 ? 'swipeUp' : 'swipeDown';
+      }
+    }
+    dispatch(gestureMap[gesture]);
+  }, [dispatch, gestureMap]);
+
+  const onPointerCancel = useCallback(() => {
+    pointerStartRef.current = null;
+    clearLongPress();
+  }, []);
+
+  return {
+    gestureHandlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel },
+  };
+}
@@ -1,76 +1,256 @@
 
 "use client";
 
-import { useCallback, useMemo, useState } from 'react';
-import type { ImmichAsset, MediaAsset } from '@/lib/types';
+import { useCallback, useRef, useState } from 'react';
+import type { DateWindow, FocusBox, ImmichAlbum, ImmichAsset, ImmichFace, MediaAsset, PlaybackOrder, Slide } from '@/lib/types';
+import type { PublicConfig } from '@/lib/config';
+import { getFocusFromFaces } from '@/lib/framing';
+import { getTransitionEffect } from '@/lib/transitions';
+import { addDays, differenceInCalendarDays, endOfDay, startOfDay, subDays, subYears } from 'date-fns';
 import { useToast } from './use-toast';
-import { LOCAL_STORAGE_DATE_KEY } from './useSlideshow';
+import { useConfig, useStorageKey } from './useConfig';
+import { LOCAL_STORAGE_DATE_KEY, LOCAL_STORAGE_WINDOW_KEY } from './useSlideshow';
 
-// --- Environment-based Configuration ---
-const SERVER_URL = process.env.NEXT_PUBLIC_IMMICH_SERVER_URL;
-const API_KEY = process.env.NEXT_PUBLIC_IMMICH_API_KEY;
-const IS_FAVORITE_ONLY = process.env.NEXT_PUBLIC_IMMICH_IS_FAVORITE_ONLY === 'true';
-const IS_ARCHIVED_INCLUDED = process.env.NEXT_PUBLIC_IMMICH_INCLUDE_ARCHIVED === 'true';
+// --- Configuration ---
+// Source filters (albums, people, favorites...) come from the runtime config, see useConfig.
 const ASSET_FETCH_PAGE_SIZE = 100;
 const API_BASE_URL = '/api/immich';
 
 const FETCH_TIMEOUT = 10000; // 10 seconds
 const RETRY_DELAY = 5000;   // 5 seconds
+const RANDOM_MAX_ATTEMPTS = 3; // Random batches to try before starting a new no-repeat cycle
+const HIDDEN_TAG_PAGE_SIZE = 1000;
+
+// "On this day" memories
+const MEMORIES_YEARS_BACK = 30;
+const MEMORIES_YEARS_PER_BATCH = 3;       // Years searched at the same time
+const MEMORIES_MAX_EMPTY_YEARS = 5;       // Stop looking further back after this many years in a row without photos
+const MEMORIES_MIN_ASSETS = 10;           // Widen the date window until at least this many match
+const MEMORIES_WINDOW_DAYS = [0, 1, 3, 7]; // +/- days around the anniversary, tried in order
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// --- Helper Functions ---
+const dedupe = (assets: ImmichAsset[]): ImmichAsset[] => {
+    const seen = new Set<string>();
+    return assets.filter(asset => {
+        if (seen.has(asset.id)) return false;
+        seen.add(asset.id);
+        return true;
+    });
+};
+
+// Merges several sorted result pages into one. Only the first `size` items are kept
+// so the date cursor never skips past an asset that a shorter page did not reach yet.
+const mergePages = (pages: ImmichAsset[][], size: number, sort: 'ASC' | 'DESC'): ImmichAsset[] => {
+    const direction = sort === 'ASC' ? 1 : -1;
+    return dedupe(pages.flat())
+        .sort((a, b) => direction * (new Date(a.fileCreatedAt).getTime() - new Date(b.fileCreatedAt).getTime()))
+        .slice(0, size);
+};
+
+const readDateWindow = (key: string): DateWindow | null => {
+    const stored = localStorage.getItem(key);
+    if (!stored) return null;
+    try {
+        return JSON.parse(stored) as DateWindow;
+    } catch {
+        localStorage.removeItem(key);
+        return null;
+    }
+};
+
+// Filters shared by every search the frame makes.
+const buildBaseSearchBody = (source: PublicConfig['source']): any => ({
+    withExif: true,
+    withPeople: true,
+    isFavorite: source.favoritesOnly,
+    isArchived: source.includeArchived ? undefined : false,
+    size: ASSET_FETCH_PAGE_SIZE,
+});
+
+// Fisher-Yates shuffle, returns a new array.
+const shuffle = <T,>(items: T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
 
 export function useImmich() {
     const { toast } = useToast();
+    const config = useConfig();
+    const { albums, personIds, personMatch } = config.source;
+    // Optional Immich tag added to hidden assets, so the exclusion follows the library.
+    const hiddenTag = config.source.hiddenTag || null;
+    // Face boxes are only needed when the image gets cropped or panned.
+    const usesFocus = config.display.imageFit === 'cover'
+        || getTransitionEffect('IMAGE', config.playback) === 'kenburns'
+        || config.playback.collageEvery > 0;
+    const dateKey = useStorageKey(LOCAL_STORAGE_DATE_KEY);
+    const windowKey = useStorageKey(LOCAL_STORAGE_WINDOW_KEY);
+
     const [urlsToRevoke, setUrlsToRevoke] = useState<string[]>([]);
+    // Resolved album IDs, cached for the session so names are only looked up once.
+    const albumIdsRef = useRef<string[] | null>(null);
+    // ID of the hidden tag, created when the first asset gets hidden.
+    const hiddenTagIdRef = useRef<string | null>(null);
+    // Assets already served in random mode, so nothing repeats within a session.
+    const randomSeenRef = useRef<Set<string>>(new Set());
 
-    const configError = useMemo(() => {
-        if (!SERVER_URL) return "Immich Server URL is missing";
-        if (!API_KEY) return "Immich API Key is missing";
-        return null;
+    // Set when the server-side proxy reports that it is missing its Immich settings.
+    const [configError, setConfigError] = useState<string | null>(null);
+
+    // All requests go through the proxy route, which adds the API key on the server.
+    const immichFetch = useCallback(async (path: string, init: RequestInit = {}): Promise<Response> => {
+        const response = await fetch(`${API_BASE_URL}${path}`, init);
+        if (response.status === 503) {
+            const body = await response.clone().json().catch(() => null);
+            if (body?.message) setConfigError(body.message);
+        }
+        return response;
     }, []);
 
-    const fetchAssets = useCallback(async (): Promise<ImmichAsset[] | null> => {
+    const resolveAlbumIds = useCallback(async (): Promise<string[]> => {
+        if (albumIdsRef.current) return albumIdsRef.current;
+        if (albums.length === 0) return [];
+
+        const ids = albums.filter(album => UUID_PATTERN.test(album));
+        const names = albums.filter(album => !UUID_PATTERN.test(album));
+
+        if (names.length > 0) {
+            const response = await immichFetch('/albums', {
+                method: 'GET',
+                headers: { 'Accept': 'application/json' },
+            });
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Failed to list albums (${response.status}): ${errorText}`);
+            }
+
+            const serverAlbums: ImmichAlbum[] = await response.json();
+            for (const name of names) {
+                const album = serverAlbums.find(a => a.albumName.toLowerCase() === name.toLowerCase());
+                if (album) {
+                    ids.push(album.id);
+                } else {
+                    console.warn(`Album "${name}" was not found on the Immich server.`);
+                }
+            }
+        }
+
+        if (ids.length === 0) {
+            throw new Error(`None of the configured albums could be found: ${albums.join(', ')}`);
+        }
+
+        albumIdsRef.current = ids;
+        return ids;
+    }, [albums, immichFetch]);
+
+    const postSearch = useCallback(async (endpoint: 'metadata' | 'random', requestBody: any): Promise<any> => {
+        const response = await immichFetch(`/search/${endpoint}`, {
+            method: 'POST',
+            headers: { 
+                'Content-Type': 'application/json',
+                'Accept': 'application/json' 
+            },
+            body: JSON.stringify(requestBody)
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Server responded with ${response.status}: ${errorText}`);
+        }
+        
+        return response.json();
+    }, [immichFetch]);
+
+    // Immich only matches assets that satisfy *every* album and person ID in a search, so
+    // "any of" filters are expanded into one search per value. Returns one page per search.
+    const searchUnion = useCallback(async (endpoint: 'metadata' | 'random', requestBody: any): Promise<ImmichAsset[][]> => {
+        const albumIds = await resolveAlbumIds();
+        const albumFilters = albumIds.length > 0 ? albumIds.map(albumId => ({ albumIds: [albumId] })) : [{}];
+        const personFilters = personIds.length === 0
+            ? [{}]
+            : personMatch === 'all'
+                ? [{ personIds }]
+                : personIds.map(personId => ({ personIds: [personId] }));
+
+        const bodies = albumFilters.flatMap(albumFilter =>
+            personFilters.map(personFilter => ({ ...requestBody, ...albumFilter, ...personFilter }))
+        );
+
+        return Promise.all(bodies.map(async body => {
+            const data = await postSearch(endpoint, body);
+            // The random endpoint returns a bare array, metadata search a paged result.
+            return (endpoint === 'random' ? data : data.assets.items) || [];
+        }));
+    }, [personIds, personMatch, resolveAlbumIds, postSearch]);
+
+    const fetchRandomAssets = useCallback(async (baseBody: any): Promise<ImmichAsset[]> => {
+        for (let attempt = 0; attempt < RANDOM_MAX_ATTEMPTS; attempt++) {
+            const pages = await searchUnion('random', baseBody);
+            const fresh = shuffle(dedupe(pages.flat()).filter(asset => !randomSeenRef.current.has(asset.id)))
+                .slice(0, ASSET_FETCH_PAGE_SIZE);
+
+            if (fresh.length > 0) {
+                fresh.forEach(asset => randomSeenRef.current.add(asset.id));
+                return fresh;
+            }
+        }
+
+        if (randomSeenRef.current.size === 0) return [];
+
+        console.log("Every matching asset has been shown this session, starting a new random cycle.");
+        randomSeenRef.current.clear();
+        return fetchRandomAssets(baseBody);
+    }, [searchUnion]);
+
+    const fetchAssets = useCallback(async (order: PlaybackOrder = 'reverse-chronological'): Promise<ImmichAsset[] | null> => {
         if (configError) {
             console.error("fetchAssets aborted due to config error:", configError);
             return null;
         }
 
-        const takenBefore = localStorage.getItem(LOCAL_STORAGE_DATE_KEY);
+        // An optional bounded window; the cursor moves inside it and loops back to its edge.
+        const dateWindow = readDateWindow(windowKey);
+        const baseBody = { ...buildBaseSearchBody(config.source), ...dateWindow };
 
         try {
-            const requestBody: any = {
-                withExif: true,
-                isFavorite: IS_FAVORITE_ONLY,
-                isArchived: IS_ARCHIVED_INCLUDED ? undefined : false,
-                size: ASSET_FETCH_PAGE_SIZE,
-                sort: 'DESC',
-            };
-            
-            if (takenBefore) {
-                requestBody.takenBefore = takenBefore;
+            if (order === 'random') {
+                return await fetchRandomAssets(baseBody);
             }
 
-            const response = await fetch(`${API_BASE_URL}/search/metadata`, {
-                method: 'POST',
-                headers: { 
-                    'x-api-key': API_KEY as string, 
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json' 
-                },
-                body: JSON.stringify(requestBody)
-            });
+            // Chronological walks forward from the cursor, every other order walks backward.
+            const sort = order === 'chronological' ? 'ASC' : 'DESC';
+            const cursorField = sort === 'ASC' ? 'takenAfter' : 'takenBefore';
+            const cursor = localStorage.getItem(dateKey);
 
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Server responded with ${response.status}: ${errorText}`);
+            const requestBody: any = { ...baseBody, sort };
+            if (cursor) {
+                requestBody[cursorField] = cursor;
             }
-            
-            const data = await response.json();
-            const items = data.assets.items || [];
 
-            if (items.length === 0 && takenBefore) {
-                console.log("Reached end of timeline, looping back to the beginning.");
-                localStorage.removeItem(LOCAL_STORAGE_DATE_KEY);
+            const pages = await searchUnion('metadata', requestBody);
+            const items = mergePages(pages, ASSET_FETCH_PAGE_SIZE, sort);
+
+            if (items.length === 0 && cursor) {
+                console.log(dateWindow
+                    ? "Reached end of date window, looping back to its start."
+                    : "Reached end of timeline, looping back to the beginning.");
+                localStorage.removeItem(dateKey);
                 // Immediately re-fetch from the start.
-                return fetchAssets();
+                return fetchAssets(order);
+            }
+
+            if (order === 'shuffle') {
+                // Assets are visited out of order, so move the cursor past the whole page now.
+                const lastItem = items[items.length - 1];
+                if (lastItem) localStorage.setItem(dateKey, lastItem.fileCreatedAt);
+                return shuffle(items);
             }
 
             return items;
@@ -78,29 +258,173 @@ export function useImmich() {
             console.error(`Failed to fetch assets from Immich:`, e);
             return null; // Return null on failure
         }
-    }, [configError]);
+    }, [config.source, configError, dateKey, windowKey, searchUnion, fetchRandomAssets]);
 
-    const getAssetUrl = useCallback(async (asset: ImmichAsset, type: 'original' | 'preview'): Promise<string | null> => {
-        if (!API_KEY) return null;
+    // Plays photos taken around `date`'s month and day in previous years, most recent year
+    // first and chronological within each year. The window widens when too few match.
+    const fetchMemories = useCallback(async (date: Date = new Date()): Promise<ImmichAsset[] | null> => {
+        if (configError) {
+            console.error("fetchMemories aborted due to config error:", configError);
+            return null;
+        }
+
+        const maxWindow = MEMORIES_WINDOW_DAYS[MEMORIES_WINDOW_DAYS.length - 1];
 
-        let url: string;
-        if (asset.type === 'VIDEO') {
-            url = type === 'original' 
-                ? `${API_BASE_URL}/assets/${asset.id}/video/playback`
-                : `${API_BASE_URL}/assets/${asset.id}/thumbnail?size=preview`;
-        } else { // IMAGE
-             url = type === 'original'
-                ? `${API_BASE_URL}/assets/${asset.id}/thumbnail?size=preview` // Use preview for original to support HEIC
-                : `${API_BASE_URL}/assets/${asset.id}/thumbnail?size=preview`;
+        try {
+            // One search per year using the widest window, narrowed locally afterwards.
+            const fetchYear = async (yearsBack: number) => {
+                const anniversary = subYears(date, yearsBack);
+                const pages = await searchUnion('metadata', {
+                    ...buildBaseSearchBody(config.source),
+                    sort: 'ASC',
+                    takenAfter: startOfDay(subDays(anniversary, maxWindow)).toISOString(),
+                    takenBefore: endOfDay(addDays(anniversary, maxWindow)).toISOString(),
+                });
+                const items = mergePages(pages, ASSET_FETCH_PAGE_SIZE, 'ASC');
+                return items.map(asset => ({
+                    asset,
+                    distance: Math.abs(differenceInCalendarDays(new Date(asset.fileCreatedAt), anniversary)),
+                }));
+            };
+
+            // A few years at a time, as every year already fans out per album and person.
+            // A long run of empty years means the library doesn't go back any further.
+            const years: Awaited<ReturnType<typeof fetchYear>>[] = [];
+            let emptyYears = 0;
+            for (let first = 1; first <= MEMORIES_YEARS_BACK && emptyYears < MEMORIES_MAX_EMPTY_YEARS; first += MEMORIES_YEARS_PER_BATCH) {
+                const count = Math.min(MEMORIES_YEARS_PER_BATCH, MEMORIES_YEARS_BACK - first + 1);
+                const batch = await Promise.all(Array.from({ length: count }, (_, i) => fetchYear(first + i)));
+                for (const year of batch) {
+                    years.push(year);
+                    emptyYears = year.length > 0 ? 0 : emptyYears + 1;
+                }
+            }
+
+            const candidates = years.flat();
+            const windowDays = MEMORIES_WINDOW_DAYS.find(days =>
+                candidates.filter(c => c.distance <= days).length >= MEMORIES_MIN_ASSETS
+            ) ?? maxWindow;
+
+            return candidates
+                .filter(c => c.distance <= windowDays)
+                .map(c => c.asset);
+        } catch (e: any) {
+            console.error(`Failed to fetch memories from Immich:`, e);
+            return null;
+        }
+    }, [config.source, configError, searchUnion]);
+
+    // Looks up the hidden tag, creating it only when `create` is set, i.e. when an asset is
+    // about to be tagged. Until then a missing tag just means nothing has been hidden yet.
+    const getHiddenTagId = useCallback(async (create: boolean): Promise<string | null> => {
+        if (!hiddenTag) return null;
+        if (hiddenTagIdRef.current) return hiddenTagIdRef.current;
+
+        const listResponse = await immichFetch('/tags', { headers: { 'Accept': 'application/json' } });
+        if (!listResponse.ok) {
+            const errorText = await listResponse.text();
+            throw new Error(`Failed to fetch tags (${listResponse.status}): ${errorText}`);
+        }
+        // `value` is the full name, which is what nested tags are configured by.
+        const tags: { id: string; value: string }[] = await listResponse.json();
+        const existing = tags.find(tag => tag.value === hiddenTag);
+        if (existing) {
+            hiddenTagIdRef.current = existing.id;
+            return existing.id;
+        }
+        if (!create) return null;
+
+        // Upsert returns the existing tag when it is already there.
+        const response = await immichFetch('/tags', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+            body: JSON.stringify({ tags: [hiddenTag] }),
+        });
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`Failed to create tag "${hiddenTag}" (${response.status}): ${errorText}`);
+        }
+
+        const [tag] = await response.json();
+        hiddenTagIdRef.current = tag?.id ?? null;
+        return hiddenTagIdRef.current;
+    }, [hiddenTag, immichFetch]);
+
+    // IDs of every asset carrying the hidden tag, e.g. hidden from another frame.
+    const fetchHiddenAssetIds = useCallback(async (): Promise<string[]> => {
+        try {
+            const tagId = await getHiddenTagId(false);
+            if (!tagId) return [];
+
+            const ids: string[] = [];
+            let page: number | null = 1;
+            while (page) {
+                const data = await postSearch('metadata', { tagIds: [tagId], size: HIDDEN_TAG_PAGE_SIZE, page });
+                ids.push(...(data.assets.items || []).map((asset: ImmichAsset) => asset.id));
+                page = data.assets.nextPage ? Number(data.assets.nextPage) : null;
+            }
+            return ids;
+        } catch (e: any) {
+            console.error(`Failed to fetch hidden assets from Immich:`, e);
+            return [];
+        }
+    }, [getHiddenTagId, postSearch]);
+
+    // Tags an asset with the hidden tag. Failures are logged only; the local hide still applies.
+    const tagAssetHidden = useCallback(async (assetId: string): Promise<void> => {
+        try {
+            const tagId = await getHiddenTagId(true);
+            if (!tagId) return;
+
+            const response = await immichFetch(`/tags/${tagId}/assets`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+                body: JSON.stringify({ ids: [assetId] }),
+            });
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Server responded with ${response.status}: ${errorText}`);
+            }
+        } catch (e: any) {
+            console.error(`Failed to tag asset ${assetId} as hidden:`, e);
+        }
+    }, [getHiddenTagId, immichFetch]);
+
+    const setFavorite = useCallback(async (assetId: string, isFavorite: boolean): Promise<boolean> => {
+        try {
+            const response = await immichFetch(`/assets/${assetId}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+                body: JSON.stringify({ isFavorite }),
+            });
+            if (!response.ok) {
+                const errorText = await response.text();
+                throw new Error(`Server responded with ${response.status}: ${errorText}`);
+            }
+            return true;
+        } catch (e: any) {
+            console.error(`Failed to update favorite for asset ${assetId}:`, e);
+            return false;
+        }
+    }, [immichFetch]);
+
+    const getAssetUrl = useCallback(async (asset: ImmichAsset, type: 'original' | 'preview'): Promise<string | null> => {
+        // Videos are streamed from the proxy, which passes Range requests through, so playback
+        // starts right away and a long video is never held in memory as a whole.
+        if (asset.type === 'VIDEO' && type === 'original') {
+            return `${API_BASE_URL}/assets/${asset.id}/video/playback`;
         }
 
+        // Images (and video posters) are preloaded as blobs. The preview is used for images
+        // rather than the original to support HEIC.
+        const path = `/assets/${asset.id}/thumbnail?size=preview`;
+
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
 
         try {
-            const res = await fetch(url, {
+            const res = await immichFetch(path, {
                 method: 'GET',
-                headers: { 'x-api-key': API_KEY },
                 signal: controller.signal,
                 cache: 'no-store'
             });
@@ -118,15 +442,36 @@ export function useImmich() {
             console.error(`Error fetching asset ${asset.id} (${type}): ${message}`);
             return null;
         }
-    }, []);
+    }, [immichFetch]);
+
+    // Box around the faces Immich detected in an image, or null (centered framing) if none.
+    const fetchFocus = useCallback(async (asset: ImmichAsset): Promise<FocusBox | null> => {
+        try {
+            const response = await immichFetch(`/faces?id=${asset.id}`, {
+                method: 'GET',
+                headers: { 'Accept': 'application/json' },
+            });
+            if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+
+            const faces: ImmichFace[] = await response.json();
+            return getFocusFromFaces(faces);
+        } catch (e: any) {
+            console.warn(`Could not load faces for asset ${asset.id}, framing it centered:`, e);
+            return null;
+        }
+    }, [immichFetch]);
 
     const getAssetWithRetry = useCallback(async (asset: ImmichAsset, retries = 1): Promise<MediaAsset | null> => {
         let originalUrl: string | null = null;
         let previewUrl: string | null = null;
+        let focus: FocusBox | null = null;
         
         if (asset.type === 'IMAGE') {
             // For images (especially HEIC), use preview for both to ensure compatibility
-            previewUrl = await getAssetUrl(asset, 'preview');
+            [previewUrl, focus] = await Promise.all([
+                getAssetUrl(asset, 'preview'),
+                usesFocus ? fetchFocus(asset) : null,
+            ]);
             originalUrl = previewUrl; 
         } else { // VIDEO
             [originalUrl, previewUrl] = await Promise.all([
@@ -142,6 +487,11 @@ export function useImmich() {
                 url: originalUrl,
                 previewUrl: previewUrl,
                 asset: asset,
+                focus,
+                // Streamed like other videos, so only clips that actually play get downloaded
+                motionUrl: config.video.livePhotos && asset.livePhotoVideoId
+                    ? `${API_BASE_URL}/assets/${asset.livePhotoVideoId}/video/playback`
+                    : undefined,
             };
         }
         
@@ -160,17 +510,22 @@ export function useImmich() {
             description: `Skipping asset ${asset.id} after multiple attempts.`,
         });
         return null;
-    }, [getAssetUrl, toast]);
+    }, [usesFocus, config.video.livePhotos, getAssetUrl, fetchFocus, toast]);
 
-    const revokeAssetUrls = useCallback((media: MediaAsset) => {
-        if (!media) return;
+    // Accepts a whole slide, or just some of its media (e.g. those of a slide that was not shown).
+    const revokeAssetUrls = useCallback((slide: Pick<Slide, 'media'>) => {
+        if (!slide) return;
         // Delay revocation to ensure transitions complete
         setTimeout(() => {
-            console.log("Revoking blob URLs for asset:", media.id);
-            URL.revokeObjectURL(media.url);
-            URL.revokeObjectURL(media.previewUrl);
+            for (const item of slide.media) {
+                console.log("Revoking blob URLs for asset:", item.id);
+                // Streamed video URLs are plain proxy URLs with nothing to revoke.
+                [item.url, item.previewUrl]
+                    .filter(url => url.startsWith('blob:'))
+                    .forEach(url => URL.revokeObjectURL(url));
+            }
         }, 2000);
     }, []);
 
-    return { fetchAssets, getAssetWithRetry, revokeAssetUrls, configError };
+    return { fetchAssets, fetchMemories, fetchHiddenAssetIds, tagAssetHidden, setFavorite, getAssetWithRetry, revokeAssetUrls, configError };
 }
@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback, useEffect, useState } from 'react';
+import type { PinStatus } from '@/lib/pin';
+
+const AUTH_URL = '/api/auth';
+
+// Whether the settings are unlocked in this browser, with ways to unlock and lock them
+// again. With `enabled` false the status is not checked until it turns true, e.g. when
+// the settings are opened.
+export function usePinLock(enabled = true) {
+  const [status, setStatus] = useState<PinStatus | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(AUTH_URL, { cache: 'no-store' });
+      if (!response.ok) throw new Error(`Server responded with ${response.status}`);
+      setStatus(await response.json());
+      setError(null);
+    } catch (e: any) {
+      console.error("Failed to check the PIN status:", e);
+      setError(`Could not check the PIN: ${e.message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  // Resolves to null once unlocked, otherwise to the reason it wasn't.
+  const unlock = useCallback(async (pin: string): Promise<string | null> => {
+    try {
+      const response = await fetch(AUTH_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pin }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (response.ok) {
+        setStatus(body);
+        return null;
+      }
+      if (body.lockedUntil) setStatus(current => current && { ...current, lockedUntil: body.lockedUntil });
+      return body.message || `Server responded with ${response.status}`;
+    } catch (e: any) {
+      console.error("Failed to check the PIN:", e);
+      return `Could not check the PIN: ${e.message}`;
+    }
+  }, []);
+
+  const isUnlocked = status !== null && (!status.pinRequired || status.unlocked);
+
+  return { status, error, isUnlocked, unlock, refresh };
+}
+
+// For controls on the frame itself: with a PIN set, it has to be entered every time they
+// are opened, whatever session the browser already has. Closing them only forgets that
+// here and leaves the session alone, as an /admin tab in the same browser may be using it.
+export function usePinGate(isOpen: boolean) {
+  const { status, error, unlock } = usePinLock(isOpen);
+  const [isUnlockedHere, setIsUnlockedHere] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) setIsUnlockedHere(false);
+  }, [isOpen]);
+
+  const unlockHere = useCallback(async (pin: string): Promise<string | null> => {
+    const message = await unlock(pin);
+    if (message === null) setIsUnlockedHere(true);
+    return message;
+  }, [unlock]);
+
+  const isUnlocked = status !== null && (!status.pinRequired || isUnlockedHere);
+
+  return { status, error, isUnlocked, unlock: unlockHere };
+}
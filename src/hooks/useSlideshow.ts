@@ -3,113 +3,287 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { flushSync } from 'react-dom';
-import type { ImmichAsset, MediaAsset } from '@/lib/types';
+import { endOfDay, startOfDay } from 'date-fns';
+import type { DateWindow, ImmichAsset, MediaAsset, PlaylistEntry, Slide } from '@/lib/types';
+import type { PlaybackConfig } from '@/lib/config';
 import type { useImmich } from './useImmich';
 import { useToast } from './use-toast';
+import { useConfig, useStorageKey } from './useConfig';
+import { getTransitionEffect } from '@/lib/transitions';
+import { buildPlaylist, minimumPhotos, withoutHidden } from '@/lib/playlist';
+import { getPanorama } from '@/lib/framing';
+import { getPlaybackLength, parseDuration, shouldSkipVideo } from '@/lib/video';
 
 // --- Configuration ---
-const DURATION = parseInt(process.env.NEXT_PUBLIC_IMAGE_DISPLAY_DURATION || '15000', 10);
+// Playback settings (duration, order, mode...) come from the runtime config, see useConfig.
+// State kept in localStorage is stored per profile under these keys, see useStorageKey.
 export const LOCAL_STORAGE_DATE_KEY = 'immich-view-taken-before';
+export const LOCAL_STORAGE_WINDOW_KEY = 'immich-view-date-window';
+export const LOCAL_STORAGE_HIDDEN_KEY = 'immich-view-hidden-assets';
+const MAX_HIDDEN_PAGES = 5; // Consecutive fully-hidden pages to skip before giving up
+const HISTORY_SIZE = 20;    // Previously shown slides kept in memory for goBack
+const HOLD_DURATION = 60 * 60 * 1000; // "Hold this photo" pauses for 1 hour
+const MAX_PANORAMA_FACTOR = 4;        // Panoramas stay up at most this many times the image duration
 
 
 // --- Helper Functions ---
 const delay = (ms: number) => new Promise(res => setTimeout(res, ms));
 
+// Portrait pairs are only used on landscape screens.
+const toPlaylist = (assets: ImmichAsset[], playback: PlaybackConfig): PlaylistEntry[] => buildPlaylist(assets, {
+  pairPortraits: playback.portraitPairing && window.innerWidth > window.innerHeight,
+  collageEvery: playback.collageEvery,
+});
+
+// Panoramas stay up longer, in proportion to how many screens they pan across.
+const getDisplayDuration = (slide: Slide | null, duration: number): number => {
+  if (slide?.layout !== 'single') return duration;
+  const panorama = getPanorama(slide.media[0].asset, { width: window.innerWidth, height: window.innerHeight });
+  return panorama ? Math.round(duration * Math.min(panorama.span, MAX_PANORAMA_FACTOR)) : duration;
+};
+
+const readHiddenIds = (key: string): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch {
+    return [];
+  }
+};
+
 type ImmichHook = ReturnType<typeof useImmich>;
 
 export function useSlideshow(immich: ImmichHook) {
   const { toast } = useToast();
-  const { fetchAssets, getAssetWithRetry, revokeAssetUrls, configError } = immich;
+  const config = useConfig();
+  const { playback } = config;
+  const { order, mode, transitionDuration } = playback;
+  // Only the timeline orders resume from the last visited photo; shuffle advances the cursor per page.
+  const tracksVisitedDate = mode === 'timeline' && (order === 'chronological' || order === 'reverse-chronological');
+  const dateKey = useStorageKey(LOCAL_STORAGE_DATE_KEY);
+  const windowKey = useStorageKey(LOCAL_STORAGE_WINDOW_KEY);
+  const hiddenKey = useStorageKey(LOCAL_STORAGE_HIDDEN_KEY);
+  const { fetchAssets, fetchMemories, fetchHiddenAssetIds, tagAssetHidden, setFavorite, getAssetWithRetry, revokeAssetUrls, configError } = immich;
 
   // --- State Management ---
-  const [playlist, setPlaylist] = useState<ImmichAsset[]>([]);
-  const [currentMedia, setCurrentMedia] = useState<MediaAsset | null>(null);
-  const [nextMedia, setNextMedia] = useState<MediaAsset | null>(null);
+  const [playlist, setPlaylist] = useState<PlaylistEntry[]>([]);
+  const [currentSlide, setCurrentSlide] = useState<Slide | null>(null);
+  const [nextSlide, setNextSlide] = useState<Slide | null>(null);
+  // Slides shown before the current one (oldest first), and slides stepped back over with
+  // goBack (the live position last), which goForward replays before fetching anything new.
+  const [backStack, setBackStack] = useState<Slide[]>([]);
+  const [forwardStack, setForwardStack] = useState<Slide[]>([]);
+  // The current slide's primary media, which details, favorite and hide act on
+  const currentMedia = currentSlide?.media[0] ?? null;
+  const displayDuration = useMemo(() => getDisplayDuration(currentSlide, playback.duration), [currentSlide, playback.duration]);
 
   const [isLoading, setIsLoading] = useState(true);
   const [isFetching, setIsFetching] = useState(false);
   const [isFading, setIsFading] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+  // Timestamp at which a "hold this photo" pause ends, or null for a plain pause.
+  const [holdUntil, setHoldUntil] = useState<number | null>(null);
 
   const initialError = useMemo(() => {
     if (configError) {
-      return `Configuration Error: ${configError}. Please check your environment variables.`;
+      return `Configuration Error: ${configError}. Please check the frame configuration.`;
     }
     return null;
   }, [configError]);
   
   const [error, setError] = useState<string | null>(initialError);
 
-  // Use a ref to get the current video duration without causing re-renders
+  // The current slide's video element, attached by the renderer.
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // Length of the current video in ms, from Immich until the video element reports its own.
+  // A ref, as it is read on every timeupdate without causing re-renders.
   const videoDurationRef = useRef<number>(0);
-
-
-  const setCurrentMediaAndMarkVisited = useCallback((media: MediaAsset | null) => {
-    setCurrentMedia(media);
-    if (media?.asset) {
-      const takenDate = media.asset.fileCreatedAt;
+  // How long the current image has been on screen, excluding paused time
+  const elapsedRef = useRef<number>(0);
+
+  // Day whose memories are shown in memories mode. Null means "today", resolved on every
+  // fetch so a frame left running overnight moves on to the new day. The ref is read by
+  // fetches, the state by the widgets labelling photos with how long ago they were taken.
+  const memoriesDateRef = useRef<Date | null>(null);
+  const [memoriesDate, setMemoriesDate] = useState<Date | null>(null);
+
+  // Assets hidden on this frame, persisted across reloads. Assets carrying the Immich hidden
+  // tag are added to the set checked while playing, but never persisted, so removing the tag
+  // in Immich brings them back.
+  const localHiddenIdsRef = useRef<Set<string>>(new Set());
+  const hiddenIdsRef = useRef<Set<string>>(new Set());
+
+  const loadAssets = useCallback(() => (
+    mode === 'memories'
+      ? fetchMemories(memoriesDateRef.current ?? new Date())
+      : fetchAssets(order)
+  ), [mode, order, fetchAssets, fetchMemories]);
+
+
+  const setCurrentSlideAndMarkVisited = useCallback((slide: Slide | null) => {
+    setCurrentSlide(slide);
+    if (tracksVisitedDate && slide) {
+      const takenDate = slide.media[0].asset.fileCreatedAt;
       if (takenDate) {
-        localStorage.setItem(LOCAL_STORAGE_DATE_KEY, takenDate);
+        localStorage.setItem(dateKey, takenDate);
       }
     }
-  }, []);
+  }, [tracksVisitedDate, dateKey]);
 
   // --- Core Slideshow Logic ---
-  const preloadNextAsset = useCallback(async (currentPlaylist: ImmichAsset[]) => {
+  const takeNextVisibleEntry = useCallback((mutablePlaylist: PlaylistEntry[]) => {
+    while (mutablePlaylist.length > 0) {
+      const entry = withoutHidden(mutablePlaylist.shift()!, hiddenIdsRef.current);
+      if (entry && !shouldSkipVideo(entry.assets[0], config)) return entry;
+    }
+    return undefined;
+  }, [config]);
+
+  // Loads every asset of an entry. When too few of them load for the entry's layout, the
+  // first one that did is shown on its own.
+  const loadEntry = useCallback(async (entry: PlaylistEntry): Promise<Slide | null> => {
+    const loaded = await Promise.all(entry.assets.map(asset => getAssetWithRetry(asset)));
+    const media = loaded.filter((item): item is MediaAsset => item !== null);
+    if (media.length === 0) return null;
+
+    if (media.length >= minimumPhotos(entry.layout)) {
+      return { id: media.map(item => item.id).join('+'), layout: entry.layout, media };
+    }
+    revokeAssetUrls({ media: media.slice(1) });
+    return { id: media[0].id, layout: 'single', media: [media[0]] };
+  }, [getAssetWithRetry, revokeAssetUrls]);
+
+  const preloadNextAsset = useCallback(async (currentPlaylist: PlaylistEntry[], hiddenPages = 0): Promise<PlaylistEntry[]> => {
     let mutablePlaylist = [...currentPlaylist];
-    let nextAssetToLoad = mutablePlaylist.shift();
+    let nextEntryToLoad = takeNextVisibleEntry(mutablePlaylist);
 
     // If playlist is empty, fetch more assets synchronously.
-    if (!nextAssetToLoad) {
+    if (!nextEntryToLoad) {
       setIsFetching(true);
       setError(null);
-      const newAssets = await fetchAssets();
+      const newAssets = await loadAssets();
       setIsFetching(false);
 
       if (newAssets && newAssets.length > 0) {
-        mutablePlaylist = newAssets;
-        nextAssetToLoad = mutablePlaylist.shift();
+        mutablePlaylist = toPlaylist(newAssets, playback);
+        nextEntryToLoad = takeNextVisibleEntry(mutablePlaylist);
+
+        // Every asset on the page was hidden. Move past it and try a few more pages.
+        if (!nextEntryToLoad && hiddenPages < MAX_HIDDEN_PAGES) {
+          if (tracksVisitedDate) {
+            localStorage.setItem(dateKey, newAssets[newAssets.length - 1].fileCreatedAt);
+          }
+          return await preloadNextAsset([], hiddenPages + 1);
+        }
       } else {
         // If fetch fails or returns no assets, stop preloading.
-        setNextMedia(null);
+        setNextSlide(null);
         if (newAssets === null) setError(`Failed to connect to Immich server.`);
         // If newAssets is empty array, it means end of timeline was reached. UI will show message.
         return []; 
       }
     }
   
-    if (!nextAssetToLoad) {
-      setNextMedia(null);
+    if (!nextEntryToLoad) {
+      setNextSlide(null);
       return [];
     }
     
-    const newMedia = await getAssetWithRetry(nextAssetToLoad);
+    const newSlide = await loadEntry(nextEntryToLoad);
     
-    if (newMedia) {
-      setNextMedia(newMedia);
+    if (newSlide) {
+      setNextSlide(newSlide);
       return mutablePlaylist; // Return the rest of the playlist
     } else {
       // If loading a specific asset fails, recursively try the next one.
       return await preloadNextAsset(mutablePlaylist);
     }
-  }, [getAssetWithRetry, fetchAssets, setError, setIsFetching]);
-
-
-  const advanceToNextAsset = useCallback(async () => {
-    if (isFading) return; // Prevent multiple concurrent advances
+  }, [playback, tracksVisitedDate, dateKey, loadEntry, loadAssets, takeNextVisibleEntry, setError, setIsFetching]);
+
+
+  // Whether a slide can still be shown from history, i.e. none of its assets were hidden since.
+  const isVisibleSlide = useCallback((slide: Slide) => (
+    !slide.media.some(item => hiddenIdsRef.current.has(item.id))
+  ), []);
+
+  // Adds a slide that is leaving the screen to the back stack, revoking whatever falls off
+  // the end or was hidden.
+  const pushToHistory = useCallback((slide: Slide) => {
+    const updated = [...backStack, slide];
+    const dropped = updated.filter(item => !isVisibleSlide(item));
+    const kept = updated.filter(isVisibleSlide);
+    if (kept.length > HISTORY_SIZE) dropped.push(kept.shift()!);
+    setBackStack(kept);
+    dropped.forEach(item => revokeAssetUrls(item));
+  }, [backStack, isVisibleSlide, revokeAssetUrls]);
+
+  // Advancing and stepping back take a while (fades, fetching what comes next), and the next
+  // key, swipe or failed video can arrive in the meantime whatever the transitions. Only one
+  // runs at a time. The flag is cleared once its updates have rendered, so the next one
+  // starts from the new slides rather than stale ones.
+  const isNavigatingRef = useRef(false);
+  const [navigationCount, setNavigationCount] = useState(0);
+  useEffect(() => {
+    isNavigatingRef.current = false;
+  }, [navigationCount]);
+
+  const navigate = useCallback(async (task: () => Promise<void>) => {
+    if (isNavigatingRef.current) return;
+    isNavigatingRef.current = true;
+    try {
+      await task();
+    } finally {
+      setNavigationCount(count => count + 1);
+    }
+  }, []);
 
-    const oldMedia = currentMedia;
+  // Shows a slide from history with the usual fade, without touching the resume cursor.
+  const showFromHistory = useCallback(async (slide: Slide) => {
+    const shouldFade = !!currentSlide && getTransitionEffect(currentSlide.media[0].type, playback) !== 'none';
+    if (shouldFade) {
+      setIsFading(true);
+      await delay(transitionDuration);
+    }
+    setCurrentSlide(slide);
+    setIsFading(false);
+  }, [currentSlide, playback, transitionDuration]);
+
+  const goBack = useCallback(() => navigate(async () => {
+    const history = backStack.filter(isVisibleSlide);
+    if (!currentSlide || history.length === 0) return;
+
+    const previous = history[history.length - 1];
+    setBackStack(history.slice(0, -1));
+    setForwardStack([...forwardStack.filter(isVisibleSlide), currentSlide]);
+    await showFromHistory(previous);
+  }), [navigate, currentSlide, backStack, forwardStack, isVisibleSlide, showFromHistory]);
+
+  const advanceToNextAsset = useCallback(() => navigate(async () => {
+    const oldSlide = currentSlide;
+
+    // While browsing history, moving forward steps back towards the live position first.
+    const upcoming = forwardStack.filter(isVisibleSlide);
+    if (upcoming.length > 0) {
+      const following = upcoming[upcoming.length - 1];
+      setForwardStack(upcoming.slice(0, -1));
+      if (oldSlide) pushToHistory(oldSlide);
+      await showFromHistory(following);
+      return;
+    }
+    if (forwardStack.length > 0) setForwardStack([]);
     
-    flushSync(async () => {
-      // Only apply fade transition for images
-      if (nextMedia?.type !== 'VIDEO') {
+    // The outgoing slide's effect decides whether there is an exit transition to wait for
+    const shouldFade = !!oldSlide && getTransitionEffect(oldSlide.media[0].type, playback) !== 'none';
+
+    await flushSync(async () => {
+      if (shouldFade) {
         setIsFading(true);
-        await delay(500); // Wait for fade-out
+        await delay(transitionDuration); // Wait for exit transition
       }
 
-      if (nextMedia) {
+      if (nextSlide) {
         // Promote next to current
-        setCurrentMediaAndMarkVisited(nextMedia);
+        setCurrentSlideAndMarkVisited(nextSlide);
 
         // Preload the next asset and update the playlist
         const updatedPlaylist = await preloadNextAsset(playlist);
@@ -119,19 +293,21 @@ export function useSlideshow(immich: ImmichHook) {
         // No next media was available, might be end of playlist. Trigger a preload.
         const updatedPlaylist = await preloadNextAsset(playlist);
         setPlaylist(updatedPlaylist);
-        // If preloadNextAsset was successful, nextMedia will be updated. If not, slideshow will pause.
+        // If preloadNextAsset was successful, nextSlide will be updated. If not, slideshow will pause.
       }
       
-      // Clean up old blob URL
-      if (oldMedia) {
-        revokeAssetUrls(oldMedia);
+      // Keep the old slide around for goBack; its blob URLs are revoked once it leaves history.
+      if (oldSlide && nextSlide) {
+        pushToHistory(oldSlide);
       }
       
-      if (nextMedia?.type !== 'VIDEO') {
+      if (shouldFade) {
         setIsFading(false);
       }
     });
-  }, [nextMedia, playlist, currentMedia, preloadNextAsset, revokeAssetUrls, isFading, setCurrentMediaAndMarkVisited]);
+  }), [navigate, nextSlide, playlist, currentSlide, forwardStack, playback, transitionDuration, preloadNextAsset, pushToHistory, showFromHistory, isVisibleSlide, setCurrentSlideAndMarkVisited]);
+
+  const goForward = advanceToNextAsset;
   
   // --- Effects ---
 
@@ -145,7 +321,10 @@ export function useSlideshow(immich: ImmichHook) {
 
     const startSlideshow = async () => {
       setIsFetching(true);
-      const initialAssets = await fetchAssets();
+      const taggedIds = await fetchHiddenAssetIds();
+      localHiddenIdsRef.current = new Set(readHiddenIds(hiddenKey));
+      hiddenIdsRef.current = new Set([...localHiddenIdsRef.current, ...taggedIds]);
+      const initialAssets = await loadAssets();
       setIsFetching(false);
 
       if (!initialAssets || initialAssets.length === 0) {
@@ -154,23 +333,23 @@ export function useSlideshow(immich: ImmichHook) {
         return;
       }
       
-      let mutablePlaylist = [...initialAssets];
-      const firstAssetToLoad = mutablePlaylist.shift();
+      let mutablePlaylist = toPlaylist(initialAssets, playback);
+      const firstEntryToLoad = takeNextVisibleEntry(mutablePlaylist);
 
-      if (!firstAssetToLoad) {
+      if (!firstEntryToLoad) {
         setError("Failed to get first asset from the list.");
         setIsLoading(false);
         return;
       }
 
-      const firstMedia = await getAssetWithRetry(firstAssetToLoad);
-      if (!firstMedia) {
+      const firstSlide = await loadEntry(firstEntryToLoad);
+      if (!firstSlide) {
         setError("Failed to load the first asset. Cannot start slideshow.");
         setIsLoading(false);
         return;
       }
       
-      setCurrentMediaAndMarkVisited(firstMedia);
+      setCurrentSlideAndMarkVisited(firstSlide);
       
       // Preload the next one immediately
       const updatedPlaylist = await preloadNextAsset(mutablePlaylist);
@@ -183,102 +362,267 @@ export function useSlideshow(immich: ImmichHook) {
   }, [initialError]);
 
   
-  // Asset rotation timer for images
+  // Reset the shown time and progress on media change
+  useEffect(() => {
+    elapsedRef.current = 0;
+    videoDurationRef.current = currentMedia?.type === 'VIDEO' ? parseDuration(currentMedia.asset.duration) : 0;
+    setProgress(0);
+  }, [currentMedia]);
+
+  // Asset rotation timer for images. Time already shown is carried over when the timer is
+  // rescheduled, so pausing (or any other re-run) continues rather than restarts the countdown.
   useEffect(() => {
-    if (isLoading || !currentMedia || currentMedia.type === 'VIDEO') return;
+    if (isLoading || !currentMedia || currentMedia.type === 'VIDEO' || isPaused) return;
 
+    const startedAt = Date.now();
     const timer = setTimeout(() => {
       advanceToNextAsset();
-    }, DURATION);
+    }, Math.max(displayDuration - elapsedRef.current, 0));
 
-    return () => clearTimeout(timer);
-  }, [isLoading, currentMedia, advanceToNextAsset]);
+    return () => {
+      clearTimeout(timer);
+      elapsedRef.current += Date.now() - startedAt;
+    };
+  }, [isLoading, currentMedia, displayDuration, advanceToNextAsset, isPaused]);
   
   
-  // Force-play videos when they become the current media
+  // Force-play videos when they become the current media, and follow pause/resume
   useEffect(() => {
     if (currentMedia?.type === 'VIDEO') {
-        const videoElement = document.querySelector('video'); // A bit fragile, but works for a single video player
-        if (videoElement) {
+        const videoElement = videoRef.current;
+        if (videoElement && isPaused) {
+            videoElement.pause();
+        } else if (videoElement) {
             videoElement.play().catch(error => {
+                // Browsers may refuse to autoplay with sound; play muted rather than skip.
+                if (error.name === 'NotAllowedError' && !videoElement.muted) {
+                    console.warn("Autoplay with sound was blocked, playing muted.");
+                    videoElement.muted = true;
+                    return videoElement.play();
+                }
+                throw error;
+            }).catch(error => {
                 console.error("Video play failed:", error);
                 advanceToNextAsset(); 
             });
         }
     }
-  }, [currentMedia, advanceToNextAsset]);
+  }, [currentMedia, advanceToNextAsset, isPaused]);
+
+
+  // Resume automatically once a hold runs out
+  useEffect(() => {
+    if (!holdUntil) return;
+
+    const timer = setTimeout(() => {
+      setHoldUntil(null);
+      setIsPaused(false);
+    }, Math.max(holdUntil - Date.now(), 0));
+
+    return () => clearTimeout(timer);
+  }, [holdUntil]);
 
 
-  // Progress bar animation
+  // Progress bar animation for images, frozen while paused. Videos report their own progress.
   useEffect(() => {
     if (isLoading || error || !currentMedia) {
       setProgress(0);
       return;
     }
-    
-    // Reset progress on media change
-    setProgress(0);
-    
-    let displayDuration = DURATION;
-    if (currentMedia.type === 'VIDEO' && videoDurationRef.current > 0) {
-        displayDuration = videoDurationRef.current * 1000;
-    }
 
-    if (displayDuration <= 0) return;
+    if (isPaused || currentMedia.type === 'VIDEO' || displayDuration <= 0) return;
 
     const interval = setInterval(() => {
       setProgress(p => Math.min(p + (100 / (displayDuration / 100)), 100));
     }, 100);
 
     return () => clearInterval(interval);
-  }, [currentMedia, isLoading, error]);
+  }, [currentMedia, displayDuration, isLoading, error, isPaused]);
+
+  // Called by the current video on loadedmetadata and timeupdate. Follows the real playback
+  // position, and stops videos that run past the configured maximum length.
+  const handleVideoProgress = useCallback((video: HTMLVideoElement) => {
+    if (Number.isFinite(video.duration) && video.duration > 0) {
+      videoDurationRef.current = video.duration * 1000;
+    }
+
+    const playbackLength = getPlaybackLength(videoDurationRef.current, config.video);
+    if (playbackLength <= 0) return;
+
+    const position = video.currentTime * 1000;
+    setProgress(Math.min((position / playbackLength) * 100, 100));
+
+    if (playbackLength < videoDurationRef.current && position >= playbackLength) {
+      video.pause();
+      advanceToNextAsset();
+    }
+  }, [config.video, advanceToNextAsset]);
   
   // --- UI Event Handlers ---
 
-  const handleTimelineChange = useCallback(async (date: Date | null) => {
-    if (date) {
-        localStorage.setItem(LOCAL_STORAGE_DATE_KEY, date.toISOString());
+  // With only `date`, jumps the timeline to that date. With `endDate` too, plays just the
+  // photos between the two dates, looping inside that window.
+  const handleTimelineChange = useCallback(async (date: Date | null, endDate?: Date) => {
+    if (mode === 'memories') {
+        memoriesDateRef.current = date;
+        setMemoriesDate(date);
     } else {
-        localStorage.removeItem(LOCAL_STORAGE_DATE_KEY);
+        // Any previous cursor may lie outside the new window, so always start fresh.
+        localStorage.removeItem(dateKey);
+        localStorage.removeItem(windowKey);
+
+        if (date && endDate) {
+            const dateWindow: DateWindow = {
+                takenAfter: startOfDay(date).toISOString(),
+                takenBefore: endOfDay(endDate).toISOString(),
+            };
+            localStorage.setItem(windowKey, JSON.stringify(dateWindow));
+        } else if (date) {
+            localStorage.setItem(dateKey, date.toISOString());
+        }
     }
     
     // Reset state and re-initialize
+    [...backStack, ...forwardStack, currentSlide, nextSlide].forEach(slide => slide && revokeAssetUrls(slide));
+    setBackStack([]);
+    setForwardStack([]);
     setPlaylist([]);
-    setCurrentMediaAndMarkVisited(null);
-    setNextMedia(null);
+    setCurrentSlideAndMarkVisited(null);
+    setNextSlide(null);
     setIsLoading(true);
 
-    const newAssets = await fetchAssets();
+    const newAssets = await loadAssets();
     if (newAssets && newAssets.length > 0) {
-        let mutablePlaylist = [...newAssets];
-        const firstAsset = mutablePlaylist.shift();
-        if (firstAsset) {
-            const firstMedia = await getAssetWithRetry(firstAsset);
-            setCurrentMediaAndMarkVisited(firstMedia);
+        let mutablePlaylist = toPlaylist(newAssets, playback);
+        const firstEntry = takeNextVisibleEntry(mutablePlaylist);
+        if (firstEntry) {
+            const firstSlide = await loadEntry(firstEntry);
+            setCurrentSlideAndMarkVisited(firstSlide);
             const restOfPlaylist = await preloadNextAsset(mutablePlaylist);
             setPlaylist(restOfPlaylist);
         }
     } else {
-        setError("No photos found for the selected date.");
+        setError(endDate ? "No photos found in the selected date range." : "No photos found for the selected date.");
     }
 
     setIsLoading(false);
 
+    if (mode === 'memories') {
+        toast({
+            title: date ? "Memories Date Set" : "Memories Reset",
+            description: date ? `Showing photos from ${date.toLocaleDateString()} in past years.` : "Showing photos from this day in past years.",
+        });
+        return;
+    }
+
+    if (date && endDate) {
+        toast({
+            title: "Date Range Set",
+            description: `Playing photos from ${date.toLocaleDateString()} to ${endDate.toLocaleDateString()}.`,
+        });
+        return;
+    }
+
     toast({
         title: date ? "Timeline Set" : "Timeline Reset",
-        description: date ? `Searching for photos before ${date.toLocaleDateString()}.` : "Restarting from the most recent photos.",
+        description: date
+          ? `Searching for photos ${order === 'chronological' ? 'after' : 'before'} ${date.toLocaleDateString()}.`
+          : `Restarting from the ${order === 'chronological' ? 'oldest' : 'most recent'} photos.`,
+    });
+  }, [mode, order, playback, dateKey, windowKey, loadAssets, loadEntry, preloadNextAsset, takeNextVisibleEntry, toast, setCurrentSlideAndMarkVisited, backStack, forwardStack, currentSlide, nextSlide, revokeAssetUrls]);
+
+  const pause = useCallback(() => {
+    setIsPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    setHoldUntil(null);
+    setIsPaused(false);
+  }, []);
+
+  const togglePause = useCallback(() => {
+    if (isPaused) resume();
+    else pause();
+  }, [isPaused, pause, resume]);
+
+  // Keeps the current photo on screen for `duration`, then carries on as normal.
+  const holdCurrent = useCallback((duration: number = HOLD_DURATION) => {
+    setIsPaused(true);
+    setHoldUntil(Date.now() + duration);
+    toast({
+        title: "Photo Held",
+        description: `Showing this photo until ${new Date(Date.now() + duration).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`,
+    });
+  }, [toast]);
+
+  const toggleFavorite = useCallback(async () => {
+    if (!currentSlide || !currentMedia) return;
+    const isFavorite = !currentMedia.asset.isFavorite;
+
+    if (!await setFavorite(currentMedia.id, isFavorite)) {
+      toast({ variant: "destructive", title: "Favorite Failed", description: "Could not update the photo on the Immich server." });
+      return;
+    }
+
+    // Every copy of the asset is updated, so the change shows again when it comes back from
+    // history. Slide ids stay the same, so the renderer is not remounted.
+    const withFavorite = <T extends Slide | null>(slide: T): T => (
+      slide?.media.some(item => item.id === currentMedia.id)
+        ? { ...slide, media: slide.media.map(item => item.id === currentMedia.id ? { ...item, asset: { ...item.asset, isFavorite } } : item) }
+        : slide
+    );
+    setCurrentSlide(withFavorite);
+    setNextSlide(withFavorite);
+    setBackStack(stack => stack.map(withFavorite));
+    setForwardStack(stack => stack.map(withFavorite));
+    toast({ title: isFavorite ? "Added to Favorites" : "Removed from Favorites" });
+  }, [currentSlide, currentMedia, setFavorite, toast]);
+
+  // Hides the current asset from this frame for good and moves on.
+  const hideCurrentAsset = useCallback(async () => {
+    if (!currentMedia) return;
+    const { id } = currentMedia;
+
+    localHiddenIdsRef.current.add(id);
+    hiddenIdsRef.current.add(id);
+    localStorage.setItem(hiddenKey, JSON.stringify([...localHiddenIdsRef.current]));
+    // Slides in history showing it are skipped from now on, see isVisibleSlide. The current
+    // one is dropped as it leaves the screen.
+    [...backStack, ...forwardStack].filter(slide => !isVisibleSlide(slide)).forEach(slide => revokeAssetUrls(slide));
+    advanceToNextAsset();
+    tagAssetHidden(id);
+
+    toast({
+        title: "Photo Hidden",
+        description: "It will no longer be shown on this frame.",
     });
-  }, [fetchAssets, getAssetWithRetry, preloadNextAsset, toast, setCurrentMediaAndMarkVisited]);
+  }, [currentMedia, backStack, forwardStack, isVisibleSlide, advanceToNextAsset, revokeAssetUrls, tagAssetHidden, toast, hiddenKey]);
 
   return {
+    currentSlide,
     currentMedia,
-    nextMedia,
+    nextSlide,
+    videoRef,
     isLoading,
     isFetching,
     isFading,
     progress,
+    displayDuration,
     error,
+    mode,
+    memoriesDate,
     handleTimelineChange,
+    handleVideoProgress,
     advanceToNextAsset,
+    goBack,
+    goForward,
+    hideCurrentAsset,
+    isPaused,
+    holdUntil,
+    pause,
+    resume,
+    togglePause,
+    holdCurrent,
+    toggleFavorite,
   };
 }
@@ -3,21 +3,19 @@
 import { useState, useEffect } from 'react';
 import type { WeatherData, AirPollutionData } from '@/lib/types';
 import { useToast } from './use-toast';
-
-const LATITUDE = process.env.NEXT_PUBLIC_LATITUDE;
-const LONGITUDE = process.env.NEXT_PUBLIC_LONGITUDE;
-const OPENWEATHER_API_KEY = process.env.NEXT_PUBLIC_OPENWEATHER_API_KEY;
+import { useConfig } from './useConfig';
 
 const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
 
 export function useWeather() {
     const { toast } = useToast();
+    const { latitude, longitude, apiKey } = useConfig().weather;
     const [weather, setWeather] = useState<WeatherData | null>(null);
     const [airPollution, setAirPollution] = useState<AirPollutionData | null>(null);
 
     useEffect(() => {
-        if (!LATITUDE || !LONGITUDE || !OPENWEATHER_API_KEY) {
-            console.warn("Weather widgets disabled: Location or OpenWeather API key is missing from environment variables.");
+        if (latitude === null || longitude === null || !apiKey) {
+            console.warn("Weather widgets disabled: Location or OpenWeather API key is missing from the configuration.");
             return;
         }
 
@@ -25,8 +23,8 @@ export function useWeather() {
             try {
                 // Fetch weather and air pollution in parallel
                 const [weatherResponse, airPollutionResponse] = await Promise.all([
-                    fetch(`https://api.openweathermap.org/data/2.5/weather?lat=${LATITUDE}&lon=${LONGITUDE}&appid=${OPENWEATHER_API_KEY}&units=metric`),
-                    fetch(`https://api.openweathermap.org/data/2.5/air_pollution?lat=${LATITUDE}&lon=${LONGITUDE}&appid=${OPENWEATHER_API_KEY}`)
+                    fetch(`https://api.openweathermap.org/data/2.5/weather?lat=${latitude}&lon=${longitude}&appid=${apiKey}&units=metric`),
+                    fetch(`https://api.openweathermap.org/data/2.5/air_pollution?lat=${latitude}&lon=${longitude}&appid=${apiKey}`)
                 ]);
 
                 if (weatherResponse.ok) {
@@ -66,7 +64,7 @@ export function useWeather() {
         const interval = setInterval(fetchData, REFRESH_INTERVAL);
 
         return () => clearInterval(interval);
-    }, [toast]);
+    }, [latitude, longitude, apiKey, toast]);
 
     return { weather, airPollution };
 }
@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+const SERVER_URL = 'http://immich.local:2283';
+const API_KEY = 'stored-api-key';
+
+let dataDir: string;
+let store: typeof import('./config-store');
+
+beforeAll(async () => {
+  // The config store picks up DATA_DIR when it is first imported.
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-store-test-'));
+  process.env.DATA_DIR = dataDir;
+  store = await import('./config-store');
+});
+
+afterAll(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  await fs.writeFile(path.join(dataDir, 'config.json'), JSON.stringify({
+    source: { serverUrl: SERVER_URL, apiKey: API_KEY },
+  }));
+});
+
+describe('updateConfig', () => {
+  it('keeps the stored API key when none is sent for the same server', async () => {
+    const config = await store.updateConfig({ source: { serverUrl: `${SERVER_URL}/`, apiKey: '' }, playback: { duration: 20000 } });
+
+    expect(config.source.apiKey).toBe(API_KEY);
+    expect(config.playback.duration).toBe(20000);
+  });
+
+  it('refuses a new server URL without its API key', async () => {
+    await expect(store.updateConfig({ source: { serverUrl: 'http://attacker.example', apiKey: '' } }))
+      .rejects.toBeInstanceOf(store.ConfigValidationError);
+    expect((await store.readConfig()).source).toMatchObject({ serverUrl: SERVER_URL, apiKey: API_KEY });
+  });
+
+  it('takes a new server URL together with a new API key', async () => {
+    const config = await store.updateConfig({ source: { serverUrl: 'http://photos.local:2283', apiKey: 'new-api-key' } });
+
+    expect(config.source).toMatchObject({ serverUrl: 'http://photos.local:2283', apiKey: 'new-api-key' });
+  });
+
+  it('refuses to save over a config file that is invalid', async () => {
+    const file = path.join(dataDir, 'config.json');
+    const invalid = JSON.stringify({ source: { serverUrl: SERVER_URL, apiKey: API_KEY }, playback: { duration: 'long' } });
+    await fs.writeFile(file, invalid);
+
+    await expect(store.updateConfig({ playback: { duration: 20000 } })).rejects.toBeInstanceOf(store.StoredConfigError);
+    expect(await fs.readFile(file, 'utf8')).toBe(invalid);
+  });
+
+  it('refuses to save over a config file that is not JSON', async () => {
+    const file = path.join(dataDir, 'config.json');
+    await fs.writeFile(file, '{ "source": ');
+
+    await expect(store.updateConfig({ playback: { duration: 20000 } })).rejects.toBeInstanceOf(store.StoredConfigError);
+    expect(await fs.readFile(file, 'utf8')).toBe('{ "source": ');
+  });
+
+  it('keeps every change of concurrent updates', async () => {
+    await Promise.all([
+      store.updateConfig({ playback: { duration: 20000 } }),
+      store.updateConfig({ profiles: { kitchen: {} } }),
+      store.updateConfig({ display: { imageFit: 'cover' } }),
+    ]);
+
+    const config = await store.readConfig();
+    expect(config.playback.duration).toBe(20000);
+    expect(Object.keys(config.profiles)).toEqual(['kitchen']);
+    expect(config.display.imageFit).toBe('cover');
+  });
+});
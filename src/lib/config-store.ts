@@ -0,0 +1,194 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ZodIssue } from 'zod';
+import { configSchema, mergeConfig, type FrameConfig } from './config';
+
+// Server-only: the frame configuration lives in a JSON file in the data directory. Settings
+// missing from the file fall back to the environment variables earlier versions were
+// configured with, then to the schema defaults.
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
+const CONFIG_FILE = path.join(DATA_DIR, 'config.json');
+
+export class ConfigValidationError extends Error {
+  constructor(public issues: ZodIssue[]) {
+    super('Invalid configuration');
+    this.name = 'ConfigValidationError';
+  }
+}
+
+// The config file exists but can't be used. Frames run on the defaults meanwhile, but saving
+// is refused, as it would replace every stored setting with them.
+export class StoredConfigError extends Error {
+  constructor(reason: string) {
+    super(`${CONFIG_FILE} is invalid (${reason}). Fix or remove it before saving settings.`);
+    this.name = 'StoredConfigError';
+  }
+}
+
+// Looked up by name so values are read at runtime rather than inlined at build time.
+const env = (name: string): string | undefined => process.env[name]?.trim() || undefined;
+
+const envList = (name: string) => env(name)?.split(',').map(item => item.trim()).filter(Boolean);
+const envNumber = (name: string) => (env(name) !== undefined ? Number(env(name)) : undefined);
+const envBoolean = (name: string) => (env(name) !== undefined ? env(name) === 'true' : undefined);
+const envJson = (name: string) => {
+  const value = env(name);
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.warn(`Ignoring ${name}, expected JSON:`, value);
+    return undefined;
+  }
+};
+// Earlier versions read the Immich settings from NEXT_PUBLIC_* variables, which put them in
+// the browser bundle. The old names still work, with a warning to move off them.
+const envRenamed = (name: string, oldName: string) => {
+  const value = env(name);
+  if (value !== undefined || env(oldName) === undefined) return value;
+  console.warn(`${oldName} is deprecated and will stop working in a future version, rename it to ${name}`);
+  return env(oldName);
+};
+
+function configFromEnv(): Record<string, unknown> {
+  return {
+    source: {
+      serverUrl: envRenamed('IMMICH_SERVER_URL', 'NEXT_PUBLIC_IMMICH_SERVER_URL'),
+      apiKey: envRenamed('IMMICH_API_KEY', 'NEXT_PUBLIC_IMMICH_API_KEY'),
+      albums: envList('NEXT_PUBLIC_IMMICH_ALBUMS'),
+      personIds: envList('NEXT_PUBLIC_IMMICH_PERSON_IDS'),
+      personMatch: env('NEXT_PUBLIC_IMMICH_PERSON_MATCH'),
+      favoritesOnly: envBoolean('NEXT_PUBLIC_IMMICH_IS_FAVORITE_ONLY'),
+      includeArchived: envBoolean('NEXT_PUBLIC_IMMICH_INCLUDE_ARCHIVED'),
+      hiddenTag: env('NEXT_PUBLIC_IMMICH_HIDDEN_TAG'),
+    },
+    playback: {
+      duration: envNumber('NEXT_PUBLIC_IMAGE_DISPLAY_DURATION'),
+      order: env('NEXT_PUBLIC_PLAYBACK_ORDER'),
+      mode: env('NEXT_PUBLIC_SLIDESHOW_MODE'),
+      imageTransition: env('NEXT_PUBLIC_IMAGE_TRANSITION'),
+      videoTransition: env('NEXT_PUBLIC_VIDEO_TRANSITION'),
+      transitionDuration: envNumber('NEXT_PUBLIC_TRANSITION_DURATION'),
+      portraitPairing: envBoolean('NEXT_PUBLIC_PORTRAIT_PAIRING'),
+      collageEvery: envNumber('NEXT_PUBLIC_COLLAGE_EVERY'),
+    },
+    video: {
+      maxDuration: envNumber('NEXT_PUBLIC_MAX_VIDEO_DURATION'),
+      longVideoMode: env('NEXT_PUBLIC_LONG_VIDEO_MODE'),
+      audio: env('NEXT_PUBLIC_VIDEO_AUDIO'),
+      volume: envNumber('NEXT_PUBLIC_VIDEO_VOLUME'),
+      audioFade: envBoolean('NEXT_PUBLIC_VIDEO_AUDIO_FADE'),
+      livePhotos: envBoolean('NEXT_PUBLIC_LIVE_PHOTOS'),
+    },
+    schedule: {
+      quietHours: env('NEXT_PUBLIC_QUIET_HOURS'),
+      skipVideosInQuietHours: envBoolean('NEXT_PUBLIC_SKIP_VIDEOS_IN_QUIET_HOURS'),
+    },
+    display: {
+      imageFit: env('NEXT_PUBLIC_IMAGE_FIT'),
+    },
+    weather: {
+      latitude: envNumber('NEXT_PUBLIC_LATITUDE'),
+      longitude: envNumber('NEXT_PUBLIC_LONGITUDE'),
+      apiKey: env('NEXT_PUBLIC_OPENWEATHER_API_KEY'),
+    },
+    controls: {
+      keyMap: envJson('NEXT_PUBLIC_KEY_MAP'),
+      gestureMap: envJson('NEXT_PUBLIC_GESTURE_MAP'),
+    },
+  };
+}
+
+// Defaults for every setting missing from the config file. An invalid environment value
+// is dropped in favor of the schema default instead of failing the whole config. The
+// environment does not change while running, so this is worked out once.
+let cachedDefaults: FrameConfig | null = null;
+
+function defaultConfig(): FrameConfig {
+  cachedDefaults ??= buildDefaultConfig();
+  return cachedDefaults;
+}
+
+function buildDefaultConfig(): FrameConfig {
+  const fromEnv = configFromEnv();
+  const result = configSchema.safeParse(fromEnv);
+  if (result.success) return result.data;
+
+  for (const issue of result.error.issues) {
+    console.warn(`Ignoring invalid environment setting ${issue.path.join('.')}: ${issue.message}`);
+    const [section, key] = issue.path;
+    const values = fromEnv[section as string] as Record<string, unknown> | undefined;
+    if (values && typeof key === 'string') delete values[key];
+  }
+  return configSchema.parse(fromEnv);
+}
+
+// The stored configuration over the defaults. Throws StoredConfigError when the file can't
+// be read or doesn't validate; a missing file just means nothing was saved yet.
+async function readStoredConfig(): Promise<FrameConfig> {
+  let stored: Record<string, unknown> = {};
+  try {
+    stored = JSON.parse(await fs.readFile(CONFIG_FILE, 'utf8'));
+  } catch (e: any) {
+    if (e.code !== 'ENOENT') throw new StoredConfigError(e.message);
+  }
+
+  const result = configSchema.safeParse(mergeConfig(defaultConfig(), stored));
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new StoredConfigError(issues.join(', '));
+  }
+  return result.data;
+}
+
+export async function readConfig(): Promise<FrameConfig> {
+  try {
+    return await readStoredConfig();
+  } catch (e: any) {
+    if (!(e instanceof StoredConfigError)) throw e;
+    console.error(`${e.message} Using the defaults for now.`);
+    return defaultConfig();
+  }
+}
+
+// Updates are applied one at a time, so concurrent saves (e.g. the profile list and the
+// settings form) can't overwrite each other's changes.
+let queue: Promise<unknown> = Promise.resolve();
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+const sameServer = (a: unknown, b: string) => typeof a === 'string' && a.trim().replace(/\/+$/, '') === b.replace(/\/+$/, '');
+
+// Saves `update` (any subset of the settings) over the current configuration. An empty
+// Immich API key keeps the stored one, since the browser never gets to see it. That only
+// holds for the same server: the key is never handed to a different one, so changing the
+// server URL needs its key in the same update.
+export function updateConfig(update: Record<string, unknown>): Promise<FrameConfig> {
+  return serialized(() => applyUpdate(update));
+}
+
+async function applyUpdate(update: Record<string, unknown>): Promise<FrameConfig> {
+  const current = await readStoredConfig();
+  const merged = mergeConfig(current, update) as Record<string, any>;
+  if (!merged.source?.apiKey && current.source.apiKey) {
+    if (!sameServer(merged.source?.serverUrl, current.source.serverUrl)) {
+      throw new ConfigValidationError([
+        { code: 'custom', path: ['source', 'apiKey'], message: 'Enter the API key for the new server' },
+      ]);
+    }
+    merged.source = { ...merged.source, apiKey: current.source.apiKey };
+  }
+
+  const result = configSchema.safeParse(merged);
+  if (!result.success) throw new ConfigValidationError(result.error.issues);
+
+  // Write to a temporary file first so a crash never leaves a half-written config.
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tempFile = `${CONFIG_FILE}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(result.data, null, 2));
+  await fs.rename(tempFile, CONFIG_FILE);
+  return result.data;
+}
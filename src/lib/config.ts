@@ -0,0 +1,181 @@
+import { z } from 'zod';
+
+// Frame settings, stored server-side (see config-store.ts) and read by the browser through
+// /api/config, so changing them needs no rebuild.
+
+const transitionEffect = z.enum(['fade', 'slide', 'zoom', 'kenburns', 'none']);
+const controlAction = z.enum(['next', 'previous', 'togglePause', 'toggleOverlays', 'favorite']);
+// Local time range such as "21:00-07:00"; it may wrap past midnight. Empty means none.
+const timeRange = z.string().trim().regex(/^((\d|[01]\d|2[0-3]):[0-5]\d-(\d|[01]\d|2[0-3]):[0-5]\d)?$/, 'Expected a time range like "21:00-07:00"');
+const coordinate = (limit: number) => z.number().min(-limit).max(limit).nullable();
+
+const sourceSchema = z.object({
+  serverUrl: z.string().trim().url().or(z.literal('')).default(''),
+  apiKey: z.string().trim().default(''),
+  // Album IDs and/or album names. Empty means the whole library.
+  albums: z.array(z.string().trim().min(1)).default([]),
+  // "any" plays assets with at least one of the people, "all" only assets with every one.
+  personIds: z.array(z.string().trim().min(1)).default([]),
+  personMatch: z.enum(['any', 'all']).default('any'),
+  favoritesOnly: z.boolean().default(false),
+  includeArchived: z.boolean().default(false),
+  // Immich tag added to hidden assets, so the exclusion follows the library.
+  hiddenTag: z.string().trim().default(''),
+});
+
+const playbackSchema = z.object({
+  duration: z.number().int().min(1000).default(15000), // ms per image
+  order: z.enum(['chronological', 'reverse-chronological', 'shuffle', 'random']).default('reverse-chronological'),
+  mode: z.enum(['timeline', 'memories']).default('timeline'),
+  imageTransition: transitionEffect.default('fade'),
+  // Ken Burns only makes sense for stills.
+  videoTransition: transitionEffect.exclude(['kenburns']).default('fade'),
+  transitionDuration: z.number().int().min(0).max(5000).default(500), // ms
+  portraitPairing: z.boolean().default(false),
+  collageEvery: z.number().int().min(0).default(0), // 0 turns collages off
+});
+
+const videoSchema = z.object({
+  maxDuration: z.number().int().min(0).default(0), // seconds, 0 plays videos to the end
+  longVideoMode: z.enum(['cut', 'skip']).default('cut'),
+  audio: z.enum(['muted', 'unmuted', 'scheduled']).default('muted'),
+  volume: z.number().int().min(0).max(100).default(50),
+  audioFade: z.boolean().default(false),
+  livePhotos: z.boolean().default(true),
+});
+
+const scheduleSchema = z.object({
+  quietHours: timeRange.default(''),
+  skipVideosInQuietHours: z.boolean().default(false),
+});
+
+const displaySchema = z.object({
+  imageFit: z.enum(['contain', 'cover']).default('contain'),
+  clock24Hour: z.boolean().default(false),
+});
+
+const weatherSchema = z.object({
+  latitude: coordinate(90).default(null),
+  longitude: coordinate(180).default(null),
+  apiKey: z.string().trim().default(''), // OpenWeather, used from the browser
+});
+
+export const WIDGET_SLOTS = ['top-left', 'top-right', 'bottom-left', 'bottom-right'] as const;
+export const WIDGET_SIZES = ['small', 'medium', 'large'] as const;
+
+// Where a widget goes and how it looks. Widgets sharing a slot are stacked.
+const widgetLayout = (slot: (typeof WIDGET_SLOTS)[number]) => z.object({
+  enabled: z.boolean().default(true),
+  slot: z.enum(WIDGET_SLOTS).default(slot),
+  size: z.enum(WIDGET_SIZES).default('medium'),
+  opacity: z.number().int().min(10).max(100).default(100), // percent
+}).default({});
+
+// One entry per widget in the registry, see components/photo-frame/WidgetLayer.tsx.
+const widgetsSchema = z.object({
+  airQuality: widgetLayout('top-left'),
+  settings: widgetLayout('top-left'),
+  weather: widgetLayout('top-right'),
+  time: widgetLayout('bottom-left'),
+  details: widgetLayout('bottom-right'),
+});
+
+const controlsSchema = z.object({
+  // Overrides for the default key and gesture maps; null disables a key or gesture.
+  keyMap: z.record(controlAction.nullable()).default({}),
+  gestureMap: z.record(controlAction.nullable()).default({}),
+});
+
+// Profile names end up in URLs (/frame/kitchen) and localStorage keys.
+export const profileNameSchema = z.string().regex(/^[a-z0-9][a-z0-9-]{0,31}$/, 'Expected lowercase letters, digits and dashes');
+
+// A profile overrides some settings for the frames showing it. The Immich server and the
+// controls are shared by all profiles.
+const profileSchema = z.object({
+  source: sourceSchema.omit({ serverUrl: true, apiKey: true }).partial().optional(),
+  playback: playbackSchema.partial().optional(),
+  video: videoSchema.partial().optional(),
+  schedule: scheduleSchema.partial().optional(),
+  display: displaySchema.partial().optional(),
+  weather: weatherSchema.partial().optional(),
+  widgets: widgetsSchema.partial().optional(),
+});
+
+export const settingsSchema = z.object({
+  source: sourceSchema.default({}),
+  playback: playbackSchema.default({}),
+  video: videoSchema.default({}),
+  schedule: scheduleSchema.default({}),
+  display: displaySchema.default({}),
+  weather: weatherSchema.default({}),
+  widgets: widgetsSchema.default({}),
+  controls: controlsSchema.default({}),
+});
+
+export const configSchema = settingsSchema.extend({
+  profiles: z.record(profileNameSchema, profileSchema).default({}),
+});
+
+export type FrameConfig = z.infer<typeof configSchema>;
+// The settings a frame runs with, i.e. the configuration without the profiles.
+export type FrameSettings = z.infer<typeof settingsSchema>;
+export type ProfileConfig = z.infer<typeof profileSchema>;
+export type PlaybackConfig = FrameConfig['playback'];
+export type VideoConfig = FrameConfig['video'];
+export type ScheduleConfig = FrameConfig['schedule'];
+export type DisplayConfig = FrameConfig['display'];
+export type WidgetsConfig = FrameConfig['widgets'];
+export type WidgetId = keyof WidgetsConfig;
+export type WidgetSlot = (typeof WIDGET_SLOTS)[number];
+export type WidgetSize = (typeof WIDGET_SIZES)[number];
+
+// What the browser gets: everything except the Immich API key, which only the proxy uses.
+export type PublicConfig = Omit<FrameConfig, 'source'> & {
+  source: Omit<FrameConfig['source'], 'apiKey'> & { hasApiKey: boolean };
+};
+
+export function toPublicConfig(config: FrameConfig): PublicConfig {
+  const { apiKey, ...source } = config.source;
+  return { ...config, source: { ...source, hasApiKey: apiKey !== '' } };
+}
+
+export const CONFIG_SECTIONS = Object.keys(configSchema.shape) as (keyof FrameConfig)[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Applies `update` over `base` section by section, so an update can carry only some
+// settings of some sections. The profiles are replaced as a whole, so leaving one out
+// removes it. Values are not validated here.
+export function mergeConfig(base: Record<string, unknown>, update: Record<string, unknown>): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...base };
+  for (const section of CONFIG_SECTIONS) {
+    const value = update[section];
+    if (!isRecord(value)) continue;
+    merged[section] = section === 'profiles'
+      ? value
+      : { ...(isRecord(base[section]) ? base[section] : {}), ...value };
+  }
+  return merged;
+}
+
+// The configuration with a profile's settings applied, or null if there is no such profile.
+export function applyProfile<T extends PublicConfig | FrameConfig>(config: T, name: string): T | null {
+  if (!Object.hasOwn(config.profiles, name)) return null;
+  return mergeConfig(config, config.profiles[name]) as T;
+}
+
+// What a profile has to override for `settings` to apply over `base`: every profile
+// setting whose value differs.
+export function getProfileOverrides(base: FrameSettings, settings: FrameSettings): ProfileConfig {
+  const overrides: Record<string, Record<string, unknown>> = {};
+  for (const [section, schema] of Object.entries(profileSchema.shape)) {
+    const key = section as keyof ProfileConfig;
+    for (const setting of Object.keys(schema.unwrap().shape)) {
+      const value = (settings[key] as Record<string, unknown>)[setting];
+      if (JSON.stringify(value) === JSON.stringify((base[key] as Record<string, unknown>)[setting])) continue;
+      overrides[section] = { ...overrides[section], [setting]: value };
+    }
+  }
+  return overrides as ProfileConfig;
+}
@@ -0,0 +1,96 @@
+import type { FocusBox, ImmichAsset, ImmichFace } from './types';
+import type { DisplayConfig } from './config';
+
+// Photos at least this many times wider than tall, or taller than wide, are panned across.
+const PANORAMA_RATIO = 2.5;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Union of all face boxes, normalized to 0..1 of the image. Null when there are no faces.
+export function getFocusFromFaces(faces: ImmichFace[]): FocusBox | null {
+  const boxes = faces
+    .filter(face => face.imageWidth > 0 && face.imageHeight > 0)
+    .map(face => ({
+      x1: face.boundingBoxX1 / face.imageWidth,
+      y1: face.boundingBoxY1 / face.imageHeight,
+      x2: face.boundingBoxX2 / face.imageWidth,
+      y2: face.boundingBoxY2 / face.imageHeight,
+    }));
+  if (boxes.length === 0) return null;
+
+  const x1 = clamp(Math.min(...boxes.map(b => b.x1)), 0, 1);
+  const y1 = clamp(Math.min(...boxes.map(b => b.y1)), 0, 1);
+  const x2 = clamp(Math.max(...boxes.map(b => b.x2)), 0, 1);
+  const y2 = clamp(Math.max(...boxes.map(b => b.y2)), 0, 1);
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+// CSS object-position that keeps the focus box in view when cropping, center otherwise.
+export function getObjectPosition(focus: FocusBox | null | undefined): string {
+  if (!focus) return '50% 50%';
+  const cx = focus.x + focus.width / 2;
+  const cy = focus.y + focus.height / 2;
+  return `${(cx * 100).toFixed(1)}% ${(cy * 100).toFixed(1)}%`;
+}
+
+// Displayed aspect ratio (width / height), accounting for EXIF orientations that rotate by 90°.
+export function getAspectRatio(asset: ImmichAsset): number | null {
+  const width = asset.exifInfo?.exifImageWidth;
+  const height = asset.exifInfo?.exifImageHeight;
+  if (!width || !height) return null;
+
+  const orientation = Number(asset.exifInfo?.orientation);
+  const isRotated = orientation >= 5 && orientation <= 8;
+  return isRotated ? height / width : width / height;
+}
+
+export function isPanorama(asset: ImmichAsset): boolean {
+  const aspect = getAspectRatio(asset);
+  return asset.type === 'IMAGE' && aspect !== null && (aspect >= PANORAMA_RATIO || aspect <= 1 / PANORAMA_RATIO);
+}
+
+export interface Panorama {
+  direction: 'horizontal' | 'vertical';
+  aspect: number;
+  span: number; // Screens the photo covers when it fills the screen's height (or width)
+}
+
+// How a panorama is panned on a `viewport`-sized screen. Null for other photos, and for
+// panoramas that already fit, e.g. on an ultra-wide screen.
+export function getPanorama(asset: ImmichAsset, viewport: { width: number; height: number }): Panorama | null {
+  const aspect = getAspectRatio(asset);
+  if (!aspect || !isPanorama(asset) || viewport.height === 0) return null;
+
+  const viewportAspect = viewport.width / viewport.height;
+  const direction = aspect > 1 ? 'horizontal' : 'vertical';
+  const span = direction === 'horizontal' ? aspect / viewportAspect : viewportAspect / aspect;
+  return span > 1 ? { direction, aspect, span } : null;
+}
+
+// Maps the focus box's center from image space to the space of a `viewport`-sized element
+// that renders the image with `fit` ("contain" shows the whole photo, "cover" fills the
+// element and crops around the subject). Returns 0..1 coordinates of that element.
+export function getFocusPoint(
+  focus: FocusBox | null | undefined,
+  imageAspect: number | null,
+  viewport: { width: number; height: number },
+  fit: DisplayConfig['imageFit'],
+): { x: number; y: number } | null {
+  if (!focus) return null;
+
+  const cx = focus.x + focus.width / 2;
+  const cy = focus.y + focus.height / 2;
+
+  // With cover + object-position at the focus center, that center lands on the same
+  // relative spot of the element, so no mapping is needed.
+  if (fit === 'cover' || !imageAspect || viewport.height === 0) return { x: cx, y: cy };
+
+  // With contain, the image is letterboxed inside the element.
+  const viewportAspect = viewport.width / viewport.height;
+  const widthShare = imageAspect < viewportAspect ? imageAspect / viewportAspect : 1;
+  const heightShare = imageAspect > viewportAspect ? viewportAspect / imageAspect : 1;
+  return {
+    x: (1 - widthShare) / 2 + cx * widthShare,
+    y: (1 - heightShare) / 2 + cy * heightShare,
+  };
+}
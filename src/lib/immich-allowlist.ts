@@ -0,0 +1,103 @@
+// Immich endpoints the frame is allowed to reach through the /api/immich proxy.
+// Everything here is read-only from the library's point of view (search is a POST
+// but does not modify anything). The only writes are favoriting an asset and tagging,
+// which is how hidden assets are marked. Their bodies are checked as well, see checkImmichBody.
+
+export interface WriteContext {
+  // The configured hidden tags (default and profiles), the only tags the frame may touch.
+  hiddenTags: string[];
+  // Looks up the full name of a tag on the server, null when there is no such tag.
+  getTagName: (id: string) => Promise<string | null>;
+}
+
+// Returns why a write is refused, or null when it may go ahead.
+type BodyCheck = (body: unknown, match: RegExpExecArray, context: WriteContext) => string | null | Promise<string | null>;
+
+interface AllowedEndpoint {
+  pattern: RegExp;
+  methods: string[];
+  // Required for every method that sends a body.
+  checkBody?: BodyCheck;
+}
+
+// Path segments that stand for an ID. Deliberately strict so "..", encoded slashes and
+// the like can never be smuggled into the upstream URL.
+const ID = '[A-Za-z0-9-]+';
+const ID_PATTERN = new RegExp(`^${ID}$`);
+
+// Whether `body` is a plain object with exactly these keys.
+const hasExactKeys = (body: unknown, keys: string[]): body is Record<string, unknown> =>
+  typeof body === 'object' && body !== null && !Array.isArray(body)
+  && Object.keys(body).length === keys.length && keys.every(key => Object.hasOwn(body, key));
+
+// Searches don't change anything, whatever they ask for.
+const anyBody: BodyCheck = () => null;
+
+// Favoriting: { "isFavorite": true | false }. Asset updates can change far more than that,
+// e.g. dates, location or archiving, none of which the frame needs.
+const checkFavorite: BodyCheck = body => (
+  hasExactKeys(body, ['isFavorite']) && typeof body.isFavorite === 'boolean' ? null : 'Only { "isFavorite": true | false } can be changed'
+);
+
+// Creating (or looking up) the hidden tag: { "tags": ["<hidden tag>"] }
+const checkTagUpsert: BodyCheck = (body, _match, { hiddenTags }) => {
+  if (!hasExactKeys(body, ['tags']) || !Array.isArray(body.tags) || body.tags.length !== 1) {
+    return 'Expected { "tags": ["<hidden tag>"] }';
+  }
+  const [name] = body.tags;
+  return typeof name === 'string' && hiddenTags.includes(name) ? null : 'Only the hidden tag can be created';
+};
+
+// Tagging assets as hidden: { "ids": ["<asset id>", ...] }, only with the hidden tag.
+const checkTagAssets: BodyCheck = async (body, match, { hiddenTags, getTagName }) => {
+  if (!hasExactKeys(body, ['ids']) || !Array.isArray(body.ids) || body.ids.length === 0
+    || !body.ids.every(id => typeof id === 'string' && ID_PATTERN.test(id))) {
+    return 'Expected { "ids": ["<asset id>", ...] }';
+  }
+  if (hiddenTags.length === 0) return 'Only the hidden tag can be assigned';
+  const name = await getTagName(match[1]);
+  return name !== null && hiddenTags.includes(name) ? null : 'Only the hidden tag can be assigned';
+};
+
+const ALLOWED_ENDPOINTS: AllowedEndpoint[] = [
+  { pattern: /^search\/(metadata|random)$/, methods: ['POST'], checkBody: anyBody },
+  { pattern: new RegExp(`^assets/${ID}$`), methods: ['PUT'], checkBody: checkFavorite },
+  { pattern: new RegExp(`^assets/${ID}/thumbnail$`), methods: ['GET', 'HEAD'] },
+  { pattern: new RegExp(`^assets/${ID}/video/playback$`), methods: ['GET', 'HEAD'] },
+  { pattern: new RegExp(`^albums(/${ID})?$`), methods: ['GET'] },
+  { pattern: new RegExp(`^people(/${ID}(/thumbnail)?)?$`), methods: ['GET'] },
+  { pattern: /^faces$/, methods: ['GET'] },
+  { pattern: /^server\/(ping|about|version|features)$/, methods: ['GET'] },
+  { pattern: /^tags$/, methods: ['GET', 'PUT'], checkBody: checkTagUpsert },
+  { pattern: new RegExp(`^tags/(${ID})/assets$`), methods: ['PUT'], checkBody: checkTagAssets },
+];
+
+export type AllowListResult =
+  | { allowed: true }
+  | { allowed: false; status: 403; message: string }
+  | { allowed: false; status: 405; message: string; allow: string[] };
+
+export function checkImmichRequest(method: string, path: string): AllowListResult {
+  const endpoint = ALLOWED_ENDPOINTS.find(e => e.pattern.test(path));
+
+  if (!endpoint) {
+    return { allowed: false, status: 403, message: `Immich endpoint "/${path}" is not available through this proxy.` };
+  }
+  if (!endpoint.methods.includes(method)) {
+    return { allowed: false, status: 405, message: `${method} is not allowed for "/${path}". Allowed: ${endpoint.methods.join(', ')}.`, allow: endpoint.methods };
+  }
+  return { allowed: true };
+}
+
+// Checks the JSON body of a write that checkImmichRequest allowed. Writes to endpoints
+// without a body check are refused, so nothing is let through by accident.
+export async function checkImmichBody(method: string, path: string, body: unknown, context: WriteContext): Promise<string | null> {
+  if (method === 'GET' || method === 'HEAD') return null;
+
+  for (const endpoint of ALLOWED_ENDPOINTS) {
+    const match = endpoint.pattern.exec(path);
+    if (!match) continue;
+    return endpoint.checkBody ? endpoint.checkBody(body, match, context) : `${method} "/${path}" is not allowed`;
+  }
+  return `Immich endpoint "/${path}" is not available through this proxy.`;
+}
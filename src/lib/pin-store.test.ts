@@ -0,0 +1,123 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+
+const PIN = '2468';
+const WRONG_PIN = '1357';
+const MINUTE = 60 * 1000;
+
+let dataDir: string;
+let store: typeof import('./pin-store');
+
+const requestWithSession = (session: string) =>
+  new NextRequest('http://frame.local/api/config', { headers: { cookie: `frame-session=${session}` } });
+
+async function failAttempts(count: number) {
+  const results = [];
+  for (let i = 0; i < count; i++) results.push(await store.checkPin(WRONG_PIN));
+  return results;
+}
+
+async function unlock(): Promise<string> {
+  const result = await store.checkPin(PIN);
+  if (!result.ok) throw new Error('Expected the PIN to be accepted');
+  return result.session;
+}
+
+beforeAll(async () => {
+  // The stores pick up DATA_DIR when they are first imported.
+  dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pin-store-test-'));
+  process.env.DATA_DIR = dataDir;
+  store = await import('./pin-store');
+});
+
+afterAll(async () => {
+  await fs.rm(dataDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2024-06-01T12:00:00Z'));
+  await store.setPin(PIN);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('checkPin', () => {
+  it('counts down the attempts left and locks after the fifth wrong PIN', async () => {
+    const results = await failAttempts(5);
+
+    expect(results.slice(0, 4)).toEqual([4, 3, 2, 1].map(attemptsLeft => ({ ok: false, attemptsLeft })));
+    expect(results[4]).toEqual({ ok: false, lockedUntil: Date.now() + 5 * MINUTE });
+  });
+
+  it('refuses even the right PIN while locked', async () => {
+    await failAttempts(5);
+    vi.advanceTimersByTime(5 * MINUTE - 1000);
+
+    expect(await store.checkPin(PIN)).toMatchObject({ ok: false, lockedUntil: expect.any(Number) });
+  });
+
+  it('doubles the lockout every time, up to an hour', async () => {
+    const durations = [];
+    for (let i = 0; i < 6; i++) {
+      const results = await failAttempts(5);
+      const { lockedUntil } = results[4] as { lockedUntil: number };
+      durations.push((lockedUntil - Date.now()) / MINUTE);
+      vi.setSystemTime(lockedUntil);
+    }
+
+    expect(durations).toEqual([5, 10, 20, 40, 60, 60]);
+  });
+
+  it('takes the right PIN once the lockout is over, and starts counting afresh', async () => {
+    const [, , , , locked] = await failAttempts(5);
+    vi.setSystemTime((locked as { lockedUntil: number }).lockedUntil);
+
+    expect((await store.checkPin(PIN)).ok).toBe(true);
+    expect(await failAttempts(5)).toContainEqual({ ok: false, lockedUntil: Date.now() + 5 * MINUTE });
+  });
+});
+
+describe('sessions', () => {
+  it('accepts a fresh session', async () => {
+    expect(await store.hasAccess(requestWithSession(await unlock()))).toBe(true);
+  });
+
+  it('rejects a request without a session', async () => {
+    expect(await store.hasAccess(new NextRequest('http://frame.local/api/config'))).toBe(false);
+  });
+
+  it('rejects an expired session', async () => {
+    const session = await unlock();
+    vi.advanceTimersByTime(30 * MINUTE + 1000);
+
+    expect(await store.hasAccess(requestWithSession(session))).toBe(false);
+  });
+
+  it('rejects a tampered session', async () => {
+    const [expires, signature] = (await unlock()).split('.');
+    const flipped = `${signature[0] === 'A' ? 'B' : 'A'}${signature.slice(1)}`;
+
+    expect(await store.hasAccess(requestWithSession(`${Number(expires) + 24 * 60 * MINUTE}.${signature}`))).toBe(false);
+    expect(await store.hasAccess(requestWithSession(`${expires}.${flipped}`))).toBe(false);
+    expect(await store.hasAccess(requestWithSession(expires))).toBe(false);
+  });
+
+  it('rejects sessions from before the PIN was changed', async () => {
+    const session = await unlock();
+    await store.setPin('9753');
+
+    expect(await store.hasAccess(requestWithSession(session))).toBe(false);
+  });
+
+  it('lets every request through when no PIN is set', async () => {
+    await store.setPin(null);
+
+    expect(await store.hasAccess(new NextRequest('http://frame.local/api/config'))).toBe(true);
+  });
+});
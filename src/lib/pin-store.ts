@@ -0,0 +1,164 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHmac, randomBytes, scrypt as scryptCallback, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { NextRequest, NextResponse } from 'next/server';
+import { DATA_DIR } from './config-store';
+import type { PinStatus } from './pin';
+
+// Server-only: the optional PIN guarding the settings. Only a salted scrypt hash is kept,
+// in pin.json next to the config. Deleting that file removes a forgotten PIN.
+const PIN_FILE = path.join(DATA_DIR, 'pin.json');
+
+const SESSION_COOKIE = 'frame-session';
+const SESSION_DURATION = 30 * 60 * 1000; // Entering the PIN unlocks for 30 minutes
+const MAX_ATTEMPTS = 5;
+const LOCKOUT_DURATION = 5 * 60 * 1000; // Doubles with every lockout in a row
+const MAX_LOCKOUT_DURATION = 60 * 60 * 1000;
+
+const scrypt = promisify(scryptCallback) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+interface PinState {
+  hash: string;
+  salt: string;
+  // Signs session cookies. Replaced with the PIN, which ends every existing session.
+  secret: string;
+  failures: number;
+  lockouts: number;
+  lockedUntil: number | null;
+}
+
+export type PinCheck =
+  | { ok: true; session: string }
+  | { ok: false; attemptsLeft: number }
+  | { ok: false; lockedUntil: number };
+
+async function readPinState(): Promise<PinState | null> {
+  try {
+    return JSON.parse(await fs.readFile(PIN_FILE, 'utf8'));
+  } catch (e: any) {
+    if (e.code === 'ENOENT') return null;
+    // Failing open would drop the PIN, so an unreadable file is an error.
+    throw e;
+  }
+}
+
+async function writePinState(state: PinState | null): Promise<void> {
+  if (!state) {
+    await fs.rm(PIN_FILE, { force: true });
+    return;
+  }
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const tempFile = `${PIN_FILE}.tmp`;
+  await fs.writeFile(tempFile, JSON.stringify(state, null, 2), { mode: 0o600 });
+  await fs.rename(tempFile, PIN_FILE);
+}
+
+// Attempts are handled one at a time, so parallel guesses can't slip past the counter.
+let queue: Promise<unknown> = Promise.resolve();
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+const hashPin = async (pin: string, salt: Buffer) => (await scrypt(pin, salt, 64)).toString('hex');
+
+const sign = (secret: string, value: string) => createHmac('sha256', secret).update(value).digest('base64url');
+
+const safeEqual = (a: string, b: string) =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+function createSession(secret: string): string {
+  const expires = String(Date.now() + SESSION_DURATION);
+  return `${expires}.${sign(secret, expires)}`;
+}
+
+function isValidSession(token: string | undefined, secret: string): boolean {
+  const [expires, signature] = token?.split('.') ?? [];
+  if (!expires || !signature || Number(expires) <= Date.now()) return false;
+  return safeEqual(signature, sign(secret, expires));
+}
+
+async function readSession(request: NextRequest): Promise<{ state: PinState | null; unlocked: boolean }> {
+  const state = await readPinState();
+  const unlocked = !state || isValidSession(request.cookies.get(SESSION_COOKIE)?.value, state.secret);
+  return { state, unlocked };
+}
+
+export async function getPinStatus(request: NextRequest): Promise<PinStatus> {
+  const { state, unlocked } = await readSession(request);
+  const lockedUntil = state?.lockedUntil && state.lockedUntil > Date.now() ? state.lockedUntil : null;
+  return { pinRequired: state !== null, unlocked, lockedUntil };
+}
+
+// Whether the request may change settings: no PIN is set, or it carries a valid session.
+export async function hasAccess(request: NextRequest): Promise<boolean> {
+  return (await readSession(request)).unlocked;
+}
+
+// Checks an entered PIN. Every MAX_ATTEMPTS wrong ones in a row lock PIN entry for a
+// while, longer each time, until the right PIN is entered.
+export function checkPin(pin: string): Promise<PinCheck> {
+  return serialized(async () => {
+    const state = await readPinState();
+    if (!state) throw new Error('No PIN is set');
+
+    const now = Date.now();
+    if (state.lockedUntil && state.lockedUntil > now) return { ok: false, lockedUntil: state.lockedUntil };
+
+    const hash = await hashPin(pin, Buffer.from(state.salt, 'hex'));
+    if (safeEqual(hash, state.hash)) {
+      if (state.failures || state.lockouts) await writePinState({ ...state, failures: 0, lockouts: 0, lockedUntil: null });
+      return { ok: true, session: createSession(state.secret) };
+    }
+
+    const failures = state.failures + 1;
+    if (failures < MAX_ATTEMPTS) {
+      await writePinState({ ...state, failures });
+      return { ok: false, attemptsLeft: MAX_ATTEMPTS - failures };
+    }
+
+    const lockedUntil = now + Math.min(LOCKOUT_DURATION * 2 ** state.lockouts, MAX_LOCKOUT_DURATION);
+    console.warn(`Too many wrong PINs, locked until ${new Date(lockedUntil).toISOString()}`);
+    await writePinState({ ...state, failures: 0, lockouts: state.lockouts + 1, lockedUntil });
+    return { ok: false, lockedUntil };
+  });
+}
+
+// Sets a new PIN, or removes it when `pin` is null. Returns a session for the new PIN so
+// whoever set it stays unlocked.
+export function setPin(pin: string | null): Promise<string | null> {
+  return serialized(async () => {
+    if (pin === null) {
+      await writePinState(null);
+      return null;
+    }
+
+    const salt = randomBytes(16);
+    const secret = randomBytes(32).toString('hex');
+    await writePinState({
+      hash: await hashPin(pin, salt),
+      salt: salt.toString('hex'),
+      secret,
+      failures: 0,
+      lockouts: 0,
+      lockedUntil: null,
+    });
+    return createSession(secret);
+  });
+}
+
+export function setSessionCookie(response: NextResponse, session: string | null): NextResponse {
+  if (!session) {
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+  response.cookies.set(SESSION_COOKIE, session, {
+    httpOnly: true,
+    sameSite: 'strict',
+    path: '/',
+    maxAge: SESSION_DURATION / 1000,
+  });
+  return response;
+}
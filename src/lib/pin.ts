@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+// PINs are digits only so they can be typed on a touchscreen's number pad.
+export const pinSchema = z.string().regex(/^\d{4,12}$/, 'Expected a PIN of 4 to 12 digits');
+
+// Whether the PIN is set and whether this browser has entered it. `lockedUntil` is set
+// while PIN entry is locked after too many wrong attempts.
+export interface PinStatus {
+  pinRequired: boolean;
+  unlocked: boolean;
+  lockedUntil: number | null;
+}
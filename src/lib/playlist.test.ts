@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import type { ImmichAsset } from './types';
+import { buildPlaylist } from './playlist';
+
+const photo = (id: string, fileCreatedAt: string, width = 3000, height = 4000) => ({
+  id,
+  type: 'IMAGE',
+  fileCreatedAt,
+  exifInfo: { exifImageWidth: width, exifImageHeight: height },
+}) as ImmichAsset;
+
+const layouts = (assets: ImmichAsset[]) =>
+  buildPlaylist(assets, { pairPortraits: true }).map(entry => `${entry.layout}:${entry.assets.map(asset => asset.id).join('+')}`);
+
+describe('buildPlaylist', () => {
+  it('pairs each portrait with the closest one in time', () => {
+    expect(layouts([
+      photo('a', '2024-06-01T10:00:00Z'),
+      photo('b', '2024-06-01T12:00:00Z'),
+      photo('c', '2024-06-01T10:05:00Z'),
+      photo('d', '2024-06-01T12:30:00Z'),
+    ])).toEqual(['pair:a+c', 'pair:b+d']);
+  });
+
+  it('shows portraits taken far apart on their own', () => {
+    expect(layouts([
+      photo('a', '2024-06-01T10:00:00Z'),
+      photo('b', '2023-06-01T10:00:00Z'),
+      photo('c', '2024-06-01T18:00:00Z'),
+    ])).toEqual(['single:a', 'single:b', 'single:c']);
+  });
+
+  it('never pairs landscapes', () => {
+    expect(layouts([
+      photo('a', '2024-06-01T10:00:00Z'),
+      photo('b', '2024-06-01T10:01:00Z', 4000, 3000),
+    ])).toEqual(['single:a', 'single:b']);
+  });
+});
@@ -0,0 +1,98 @@
+import type { ImmichAsset, PlaylistEntry, SlideLayout } from './types';
+import { getAspectRatio, isPanorama } from './framing';
+
+export const COLLAGE_MIN_PHOTOS = 3;
+const COLLAGE_MAX_PHOTOS = 6;
+// Portraits taken further apart than this are not paired, as they rarely belong together.
+const MAX_PAIR_GAP = 3 * 60 * 60 * 1000;
+
+// Panoramas are panned across on their own, never paired or put in a collage.
+const isPortrait = (asset: ImmichAsset) => {
+  if (asset.type !== 'IMAGE' || isPanorama(asset)) return false;
+  const aspect = getAspectRatio(asset);
+  return aspect !== null && aspect < 1;
+};
+
+const takenAt = (asset: ImmichAsset) => new Date(asset.fileCreatedAt).getTime();
+
+const takenOn = (asset: ImmichAsset) => new Date(asset.fileCreatedAt).toDateString();
+
+interface PlaylistOptions {
+  pairPortraits: boolean;
+  collageEvery?: number;
+}
+
+// Groups a page of fetched assets into slides. With `pairPortraits`, each portrait photo
+// is shown next to the unpaired portrait from the same page taken closest in time, at the
+// position of whichever of the two comes first. A portrait with no other one taken within
+// a few hours of it is shown on its own. With `collageEvery`, every Nth slide
+// gathers up to six photos from the page taken on the same day as its first photo.
+export function buildPlaylist(assets: ImmichAsset[], { pairPortraits, collageEvery = 0 }: PlaylistOptions): PlaylistEntry[] {
+  if (!pairPortraits && collageEvery <= 0) {
+    return assets.map(asset => ({ layout: 'single', assets: [asset] }));
+  }
+
+  const paired = new Set<string>();
+  const entries: PlaylistEntry[] = [];
+  let sinceCollage = 0;
+
+  assets.forEach((asset, index) => {
+    if (paired.has(asset.id)) return;
+
+    if (collageEvery > 0 && sinceCollage >= collageEvery - 1 && asset.type === 'IMAGE' && !isPanorama(asset)) {
+      const day = takenOn(asset);
+      const group = assets
+        .slice(index)
+        .filter(candidate => !paired.has(candidate.id) && candidate.type === 'IMAGE' && !isPanorama(candidate) && takenOn(candidate) === day)
+        .slice(0, COLLAGE_MAX_PHOTOS);
+
+      if (group.length >= COLLAGE_MIN_PHOTOS) {
+        group.forEach(item => paired.add(item.id));
+        entries.push({ layout: 'collage', assets: group });
+        sinceCollage = 0;
+        return;
+      }
+    }
+    sinceCollage++;
+
+    if (pairPortraits && isPortrait(asset)) {
+      let partner: ImmichAsset | null = null;
+      let partnerGap = MAX_PAIR_GAP;
+      for (const candidate of assets.slice(index + 1)) {
+        if (paired.has(candidate.id) || !isPortrait(candidate)) continue;
+        const gap = Math.abs(takenAt(candidate) - takenAt(asset));
+        if (gap <= partnerGap && (!partner || gap < partnerGap)) {
+          partner = candidate;
+          partnerGap = gap;
+        }
+      }
+
+      if (partner) {
+        paired.add(asset.id);
+        paired.add(partner.id);
+        entries.push({ layout: 'pair', assets: [asset, partner] });
+        return;
+      }
+    }
+
+    entries.push({ layout: 'single', assets: [asset] });
+  });
+
+  return entries;
+}
+
+// Smallest number of photos each layout can be shown with.
+export function minimumPhotos(layout: SlideLayout): number {
+  if (layout === 'collage') return COLLAGE_MIN_PHOTOS;
+  return layout === 'pair' ? 2 : 1;
+}
+
+// Drops hidden assets from an entry. Whatever is too small for its layout afterwards is
+// shown as a single photo.
+export function withoutHidden(entry: PlaylistEntry, hiddenIds: Set<string>): PlaylistEntry | null {
+  const assets = entry.assets.filter(asset => !hiddenIds.has(asset.id));
+  if (assets.length === 0) return null;
+  if (assets.length === entry.assets.length) return entry;
+  if (assets.length >= minimumPhotos(entry.layout)) return { ...entry, assets };
+  return { layout: 'single', assets: [assets[0]] };
+}
@@ -0,0 +1,116 @@
+import type { CSSProperties } from 'react';
+import type { TransitionEffect } from './types';
+import type { PlaybackConfig } from './config';
+
+const KEN_BURNS_ZOOM = 1.15;
+const KEN_BURNS_FACE_ZOOM = 1.3; // Closer when there is a subject to zoom in on
+
+export type TransitionPhase = 'enter' | 'visible' | 'exit';
+
+// The effect is configured per media type.
+export function getTransitionEffect(type: 'IMAGE' | 'VIDEO', playback: PlaybackConfig): TransitionEffect {
+  return type === 'VIDEO' ? playback.videoTransition : playback.imageTransition;
+}
+
+// Only opacity and transform are animated so browsers can run the effect on the GPU
+// compositor, which keeps it smooth on low-power devices like a Raspberry Pi.
+const PHASE_STYLES: Record<TransitionEffect, Record<TransitionPhase, CSSProperties>> = {
+  fade: {
+    enter: { opacity: 0 },
+    visible: { opacity: 1 },
+    exit: { opacity: 0 },
+  },
+  // Ken Burns itself runs on the image; between slides it cross-fades.
+  kenburns: {
+    enter: { opacity: 0 },
+    visible: { opacity: 1 },
+    exit: { opacity: 0 },
+  },
+  slide: {
+    enter: { transform: 'translate3d(100%, 0, 0)' },
+    visible: { transform: 'translate3d(0, 0, 0)' },
+    exit: { transform: 'translate3d(-100%, 0, 0)' },
+  },
+  zoom: {
+    enter: { opacity: 0, transform: 'scale3d(1.1, 1.1, 1)' },
+    visible: { opacity: 1, transform: 'scale3d(1, 1, 1)' },
+    exit: { opacity: 0, transform: 'scale3d(0.95, 0.95, 1)' },
+  },
+  none: {
+    enter: { opacity: 1 },
+    visible: { opacity: 1 },
+    exit: { opacity: 0 },
+  },
+};
+
+export function getTransitionStyle(effect: TransitionEffect, phase: TransitionPhase, duration: number): CSSProperties {
+  return {
+    ...PHASE_STYLES[effect][phase],
+    transitionProperty: 'opacity, transform',
+    transitionDuration: `${effect === 'none' ? 0 : duration}ms`,
+    transitionTimingFunction: 'ease-in-out',
+    willChange: 'opacity, transform',
+  };
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Small stable hash so an asset always zooms the same way.
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+export interface KenBurnsFrame {
+  scale: number;
+  x: number; // translate, % of the element
+  y: number;
+}
+
+const toTransform = ({ scale, x, y }: KenBurnsFrame) => `translate3d(${x}%, ${y}%, 0) scale3d(${scale}, ${scale}, 1)`;
+
+// Start and end frames for an asset: zooms in or out between the whole frame and the
+// subject. `focus` is the subject's center in 0..1 coordinates of the rendered element
+// (see getFocusPoint); without one the zoom is centered.
+export function getKenBurnsFrames(assetId: string, focus?: { x: number; y: number } | null): { from: KenBurnsFrame; to: KenBurnsFrame } {
+  const zoomIn = hashString(assetId) % 2 === 0;
+  const scale = focus ? KEN_BURNS_FACE_ZOOM : KEN_BURNS_ZOOM;
+
+  // Translating by -(offset from center) * scale brings the focus point to the middle. It is
+  // clamped so the scaled element still covers the frame edges.
+  const maxShift = ((scale - 1) / 2) * 100;
+  const shift = (point: number) => clamp(-(point - 0.5) * scale * 100, -maxShift, maxShift);
+
+  const wide: KenBurnsFrame = { scale: 1, x: 0, y: 0 };
+  const close: KenBurnsFrame = focus
+    ? { scale, x: shift(focus.x), y: shift(focus.y) }
+    : { scale, x: 0, y: 0 };
+  return zoomIn ? { from: wide, to: close } : { from: close, to: wide };
+}
+
+// Inline style that pans the `animate-ken-burns` class from one end of a panorama to the
+// other. The element is the panorama at full screen height (or width), so 100% is its size.
+export function getPanStyle(direction: 'horizontal' | 'vertical', duration: number, isPaused: boolean): CSSProperties {
+  const end = direction === 'horizontal' ? 'translate3d(calc(100vw - 100%), 0, 0)' : 'translate3d(0, calc(100vh - 100%), 0)';
+  return {
+    '--kb-from': 'translate3d(0, 0, 0)',
+    '--kb-to': end,
+    '--kb-duration': `${duration}ms`,
+    animationPlayState: isPaused ? 'paused' : 'running',
+    willChange: 'transform',
+  } as CSSProperties;
+}
+
+// Inline style for the `animate-ken-burns` class, which animates between --kb-from and --kb-to.
+export function getKenBurnsStyle(frames: { from: KenBurnsFrame; to: KenBurnsFrame }, duration: number, isPaused: boolean): CSSProperties {
+  return {
+    '--kb-from': toTransform(frames.from),
+    '--kb-to': toTransform(frames.to),
+    '--kb-duration': `${duration}ms`,
+    animationPlayState: isPaused ? 'paused' : 'running',
+    willChange: 'transform',
+  } as CSSProperties;
+}
@@ -13,6 +13,8 @@ export interface ImmichAsset {
   duration: string; // e.g., "00:00:09.123456"
   isArchived: boolean;
   fileCreatedAt: string;
+  livePhotoVideoId?: string | null; // Motion clip of a Live Photo / motion photo
+  people?: ImmichPerson[];
   exifInfo?: {
     make?: string;
     model?: string;
@@ -32,14 +34,73 @@ export interface ImmichAsset {
   }
 }
 
+export interface ImmichPerson {
+  id: string;
+  name: string;
+  birthDate: string | null;
+  thumbnailPath: string;
+  isHidden: boolean;
+}
+
+export interface ImmichFace {
+  id: string;
+  imageWidth: number;
+  imageHeight: number;
+  boundingBoxX1: number;
+  boundingBoxY1: number;
+  boundingBoxX2: number;
+  boundingBoxY2: number;
+}
+
+// A region of an image in 0..1 coordinates, e.g. the box around all detected faces.
+export interface FocusBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface MediaAsset {
   id: string;
   url: string;
   type: 'IMAGE' | 'VIDEO';
   asset: ImmichAsset;
   previewUrl: string; // For video posters and image previews
+  focus?: FocusBox | null; // Where the subject is, for cropping and Ken Burns
+  motionUrl?: string;       // Live Photo clip, played once as the slide starts
+}
+
+export type SlideLayout = 'single' | 'pair' | 'collage';
+
+// What is on screen at one time: a photo or video, or several photos laid out together.
+export interface Slide {
+  id: string;
+  layout: SlideLayout;
+  media: MediaAsset[]; // The first item is the primary one, whose details are shown
+}
+
+// One upcoming slide in the playlist, before its media is loaded.
+export interface PlaylistEntry {
+  layout: SlideLayout;
+  assets: ImmichAsset[];
 }
 
+export type PlaybackOrder = 'chronological' | 'reverse-chronological' | 'shuffle' | 'random';
+
+// Bounds for the timeline, as ISO dates matching Immich's takenAfter/takenBefore filters.
+export interface DateWindow {
+  takenAfter: string;
+  takenBefore: string;
+}
+
+export type SlideshowMode = 'timeline' | 'memories';
+
+export type TransitionEffect = 'fade' | 'slide' | 'zoom' | 'kenburns' | 'none';
+
+export type ControlAction = 'next' | 'previous' | 'togglePause' | 'toggleOverlays' | 'favorite';
+
+export type Gesture = 'tap' | 'longPress' | 'swipeLeft' | 'swipeRight' | 'swipeUp' | 'swipeDown';
+
 export interface ImmichAlbum {
   id: string;
   albumName: string;
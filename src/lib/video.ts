@@ -0,0 +1,72 @@
+import type { ImmichAsset } from './types';
+import type { ScheduleConfig, VideoConfig } from './config';
+
+type VideoPolicy = { video: VideoConfig; schedule: ScheduleConfig };
+
+// "hh:mm" to minutes after midnight, or null when malformed.
+const parseTimeOfDay = (value: string): number | null => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const [hours, minutes] = [Number(match[1]), Number(match[2])];
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+};
+
+// Parses Immich's "hh:mm:ss.ffffff" durations into milliseconds. 0 when missing or malformed.
+export function parseDuration(duration: string | null | undefined): number {
+  const parts = (duration ?? '').split(':').map(Number);
+  if (parts.length !== 3 || parts.some(part => !Number.isFinite(part))) return 0;
+  const [hours, minutes, seconds] = parts;
+  return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000);
+}
+
+// Whether `date` falls in `quietHours`, a local time range such as "21:00-07:00" that may
+// wrap past midnight. An empty range is never quiet.
+export function isQuietTime(quietHours: string, date: Date = new Date()): boolean {
+  if (!quietHours) return false;
+  const [start, end] = quietHours.split('-').map(parseTimeOfDay);
+  if (start == null || end == null) return false;
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+// Whether a video is left out of the slideshow: too long in "skip" mode, or during quiet
+// hours when those skip videos.
+export function shouldSkipVideo(asset: ImmichAsset, { video, schedule }: VideoPolicy, date: Date = new Date()): boolean {
+  if (asset.type !== 'VIDEO') return false;
+  if (schedule.skipVideosInQuietHours && isQuietTime(schedule.quietHours, date)) return true;
+  return video.longVideoMode === 'skip'
+    && video.maxDuration > 0
+    && parseDuration(asset.duration) > video.maxDuration * 1000;
+}
+
+// How much of a video `duration` ms long is played, in ms. In "cut" mode that is at most
+// the configured maximum.
+export function getPlaybackLength(duration: number, video: VideoConfig): number {
+  if (video.longVideoMode !== 'cut' || video.maxDuration <= 0) return duration;
+  const maxDuration = video.maxDuration * 1000;
+  return duration > 0 ? Math.min(duration, maxDuration) : maxDuration;
+}
+
+// Volume (0..1) a video starting at `date` plays at. 0 means muted. "scheduled" audio is
+// unmuted outside quiet hours.
+export function getVideoVolume({ video, schedule }: VideoPolicy, date: Date = new Date()): number {
+  if (video.audio === 'muted') return 0;
+  if (video.audio === 'scheduled' && isQuietTime(schedule.quietHours, date)) return 0;
+  return video.volume / 100;
+}
+
+// Ramps a media element's volume linearly. Returns a function that stops the ramp.
+export function fadeVolume(element: HTMLMediaElement, from: number, to: number, duration: number): () => void {
+  const startedAt = performance.now();
+  let frame = 0;
+  const step = (now: number) => {
+    const t = duration > 0 ? Math.min((now - startedAt) / duration, 1) : 1;
+    element.volume = from + (to - from) * t;
+    if (t < 1) frame = requestAnimationFrame(step);
+  };
+  frame = requestAnimationFrame(step);
+  return () => cancelAnimationFrame(frame);
+}
@@ -101,10 +101,19 @@ export default {
             height: '0',
           },
         },
+        'ken-burns': {
+          from: {
+            transform: 'var(--kb-from)',
+          },
+          to: {
+            transform: 'var(--kb-to)',
+          },
+        },
       },
       animation: {
         'accordion-down': 'accordion-down 0.2s ease-out',
         'accordion-up': 'accordion-up 0.2s ease-out',
+        'ken-burns': 'ken-burns var(--kb-duration) linear forwards',
       },
     },
   },